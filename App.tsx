@@ -1,13 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import UploadZone from './components/UploadZone';
 import AnalysisResult from './components/AnalysisResult';
 import InteractiveSchematicViewer from './components/InteractiveSchematicViewer';
 import LibrarySidebar from './components/LibrarySidebar';
-import { SchematicAnalysis, AnalysisStatus, PageResult, ProjectData } from './types';
-import { analyzeSchematicImage, detectSchematicPages } from './services/geminiService';
-import { convertPdfToImages } from './services/pdfService';
-import { saveProject } from './services/storageService';
-import { Loader2, Zap, Settings, Github, FileText, ChevronLeft, ChevronRight, Download, FolderOpen, Menu } from 'lucide-react';
+import ExportMenu from './components/ExportMenu';
+import ProjectNetlistView from './components/ProjectNetlistView';
+import CompareView from './components/CompareView';
+import AnalysisProgress, { PageJob } from './components/AnalysisProgress';
+import PagePicker from './components/PagePicker';
+import { SchematicAnalysis, AnalysisStatus, PageDetection, PageResult, PageTextLayer, ProjectData, ProjectLocation } from './types';
+import { analyzeSchematicImage, analyzeSchematicTiled, detectSchematicPages, shouldAnalyzePage } from './services/geminiService';
+import { openPdf, formatPageRanges, PdfDocumentHandle, ANALYSIS_SCALE, TILE_SCALE } from './services/pdfService';
+import { cropImage, loadImageSize, planPageTiles, TilingMode } from './services/tilingService';
+import { getProjectSummary, saveProject } from './services/storageService';
+import { isJsonFile, parseAnalysisExport } from './services/importService';
+import { isBundleFile, parseProjectBundle } from './services/bundleService';
+import { getNetDesignators } from './services/netlistService';
+import { groundAnalysis } from './services/groundingService';
+import { runJobs } from './services/jobRunner';
+import { createEmptyAnalysis } from './services/validationService';
+import { useAnalysisHistory } from './hooks/useAnalysisHistory';
+import { Loader2, Zap, Settings, Github, FileText, ChevronLeft, ChevronRight, FolderOpen, Menu, RotateCw, XCircle, Info, X } from 'lucide-react';
+
+// Pages analyzed at the same time. Higher values hit provider rate limits sooner.
+const ANALYSIS_CONCURRENCY = 3;
+
+// Thumbnails are pushed to state in batches to avoid a re-render per page
+const THUMBNAIL_BATCH_SIZE = 6;
+
+// A page to analyze. PDF pages are only rendered at full resolution once
+// their analysis job starts.
+interface PageSource {
+  pageNumber: number;
+  getImage: () => Promise<string>;
+  renderRegion?: (box: number[]) => Promise<string>;
+  getText?: () => Promise<PageTextLayer>;
+}
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AnalysisStatus>('idle');
@@ -20,9 +48,30 @@ const App: React.FC = () => {
   const [pages, setPages] = useState<PageResult[]>([]);
   const [activePageIndex, setActivePageIndex] = useState<number>(0);
   const [selectedComponent, setSelectedComponent] = useState<string | null>(null);
+  const [selectedNet, setSelectedNet] = useState<string | null>(null);
 
   // UI State
   const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [viewScope, setViewScope] = useState<'page' | 'project' | 'compare'>('page');
+  const [pageJobs, setPageJobs] = useState<PageJob[]>([]);
+  const [retryingPageIds, setRetryingPageIds] = useState<string[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const retryControllersRef = useRef(new Map<string, AbortController>());
+  // Sources of pages that failed, by page id, so they can be rendered again
+  // on retry. The PDF stays open until all of them are done.
+  const failedSourcesRef = useRef(new Map<string, PageSource>());
+  const history = useAnalysisHistory();
+
+  // PDF page selection
+  const pdfHandleRef = useRef<PdfDocumentHandle | null>(null);
+  const [pdfFileName, setPdfFileName] = useState<string>("");
+  const [pdfPageCount, setPdfPageCount] = useState<number>(0);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [selectedPdfPages, setSelectedPdfPages] = useState<number[]>([]);
+  const [pageDetections, setPageDetections] = useState<Record<number, PageDetection> | null>(null);
+  const [unrenderablePages, setUnrenderablePages] = useState<number[]>([]);
+  const [tilingMode, setTilingMode] = useState<TilingMode>('auto');
+  const [skippedNotice, setSkippedNotice] = useState<string | null>(null);
 
   // Auto-save when analysis completes
   useEffect(() => {
@@ -65,76 +114,374 @@ const App: React.FC = () => {
     }
   }, [status, pages, currentProjectId, currentProjectName]);
 
+  // Render PDF thumbnails in the background while the user picks pages
+  useEffect(() => {
+    const handle = pdfHandleRef.current;
+    if (status !== 'selecting_pages' || !handle) return;
+
+    let cancelled = false;
+    const renderThumbnails = async () => {
+      let batch: Record<number, string> = {};
+      const flush = () => {
+        const rendered = batch;
+        batch = {};
+        if (!cancelled && Object.keys(rendered).length > 0) {
+          setThumbnails(prev => ({ ...prev, ...rendered }));
+        }
+      };
+
+      for (let pageNumber = 1; pageNumber <= handle.numPages && !cancelled; pageNumber++) {
+        if (thumbnails[pageNumber]) continue;
+        try {
+          batch[pageNumber] = await handle.renderThumbnail(pageNumber);
+        } catch (e) {
+          if (cancelled) return;
+          console.warn(`Could not render a preview of page ${pageNumber}`, e);
+        }
+        if (Object.keys(batch).length >= THUMBNAIL_BATCH_SIZE) flush();
+      }
+      flush();
+    };
+    renderThumbnails();
+
+    return () => { cancelled = true; };
+  }, [status, pdfPageCount]);
+
+  const handleImportFile = async (file: File) => {
+    reset();
+    setError(null);
+    setSelectedComponent(null);
+    setStatus('importing');
+    setLoadingMessage(isBundleFile(file) ? "Importing project bundle..." : "Importing analysis...");
+
+    try {
+      const fallbackName = file.name.replace(/\.[^/.]+$/, "");
+      let project = isBundleFile(file)
+        ? parseProjectBundle(new Uint8Array(await file.arrayBuffer()), fallbackName)
+        : parseAnalysisExport(await file.text(), fallbackName);
+
+      // Bundles keep their project id, which may already be in the library
+      const existing = await getProjectSummary(project.id);
+      const replace = !!existing && confirm(`"${existing.name}" is already in your library. Replace it with the imported copy?\n\nChoose Cancel to keep both.`);
+      if (existing && !replace) {
+        project = { ...project, id: crypto.randomUUID(), name: `${project.name} (imported)` };
+      }
+      await saveProject(project, { replace });
+      handleLoadProject(project);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to import file.");
+      setStatus('error');
+    }
+  };
+
+  const analyzePage = async (
+    imageData: string,
+    signal: AbortSignal,
+    renderRegion?: (box: number[]) => Promise<string>,
+    textLayer?: PageTextLayer
+  ): Promise<Pick<PageResult, 'analysis' | 'grounding'>> => {
+    // Large sheets are analyzed in tiles. PDF tiles are rendered sharper than
+    // the page image, other images are cropped at their native resolution.
+    const size = tilingMode === 'off' ? null : await loadImageSize(imageData);
+    const regionScale = renderRegion ? TILE_SCALE / ANALYSIS_SCALE : 1;
+    const tiles = size && planPageTiles(tilingMode, size.width * regionScale, size.height * regionScale);
+
+    const raw = tiles
+      ? await analyzeSchematicTiled(imageData, tiles, tile => renderRegion ? renderRegion(tile.box) : cropImage(imageData, tile.box), signal)
+      : await analyzeSchematicImage(imageData, signal);
+
+    // Vector PDFs carry the exact designators and values in their text layer
+    const { analysis, grounding } = textLayer ? groundAnalysis(raw, textLayer) : { analysis: raw, grounding: null };
+    return grounding ? { analysis, grounding } : { analysis };
+  };
+
+  const releasePdf = () => {
+    failedSourcesRef.current.clear();
+    pdfHandleRef.current?.destroy().catch(e => console.warn("Failed to release PDF", e));
+    pdfHandleRef.current = null;
+  };
+
   const handleFileSelected = async (file: File) => {
+    if (isJsonFile(file) || isBundleFile(file)) {
+      return handleImportFile(file);
+    }
+
     reset();
     setError(null);
     setSelectedComponent(null);
     setCurrentProjectName(file.name.replace(/\.[^/.]+$/, "")); // Remove extension
-    
-    try {
-      let images: string[] = [];
-
-      if (file.type === 'application/pdf') {
-        setStatus('rendering_pdf');
-        setLoadingMessage("Reading PDF Manual...");
-        images = await convertPdfToImages(file);
-      } else {
-        // Image handling
-        const reader = new FileReader();
-        const base64 = await new Promise<string>((resolve) => {
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.readAsDataURL(file);
-        });
-        images = [base64];
+
+    if (file.type === 'application/pdf') {
+      setStatus('rendering_pdf');
+      setLoadingMessage("Reading PDF Manual...");
+      try {
+        const handle = await openPdf(file);
+        pdfHandleRef.current = handle;
+        setPdfFileName(file.name);
+        setPdfPageCount(handle.numPages);
+        setSelectedPdfPages(Array.from({ length: handle.numPages }, (_, i) => i + 1));
+        setStatus('selecting_pages');
+      } catch (err: any) {
+        console.error(err);
+        setError(err.message || "Failed to read PDF.");
+        setStatus('error');
       }
+      return;
+    }
+
+    // Image handling
+    const reader = new FileReader();
+    const base64 = await new Promise<string>((resolve) => {
+      reader.onload = (e) => resolve(e.target?.result as string);
+      reader.readAsDataURL(file);
+    });
+    await analyzeSources([{ pageNumber: 1, getImage: async () => base64 }], []);
+  };
 
+  // First confirmation scans the selected pages, the second one analyzes the
+  // pages kept after reviewing the detection
+  const handleConfirmPages = () => (pageDetections ? analyzeSelectedPages() : scanSelectedPages());
+
+  const scanSelectedPages = async () => {
+    const handle = pdfHandleRef.current;
+    if (!handle) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
       setStatus('filtering');
-      setLoadingMessage("Scanning for schematics...");
-      
-      // Filter pages that actually have schematics
-      const schematicIndices = await detectSchematicPages(images);
+      setLoadingMessage("Preparing page previews...");
 
-      if (schematicIndices.length === 0) {
-        throw new Error("No schematics or wiring diagrams detected in this file.");
+      // Reuse the thumbnails rendered so far, render the rest on demand
+      const rendered: Record<number, string> = {};
+      const scanned: number[] = [];
+      const unrenderable: number[] = [];
+      for (const pageNumber of selectedPdfPages) {
+        if (controller.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+        try {
+          rendered[pageNumber] = thumbnails[pageNumber] || await handle.renderThumbnail(pageNumber);
+          scanned.push(pageNumber);
+        } catch (e) {
+          console.warn(`Could not render page ${pageNumber}`, e);
+          unrenderable.push(pageNumber);
+        }
       }
 
+      setLoadingMessage(`Scanning ${scanned.length} page(s) for schematics...`);
+      const detections = await detectSchematicPages(scanned.map(p => rendered[p]), controller.signal);
+
+      const byPage: Record<number, PageDetection> = {};
+      detections.forEach(d => { byPage[scanned[d.index]] = d; });
+
+      setThumbnails(prev => ({ ...prev, ...rendered }));
+      setUnrenderablePages(unrenderable);
+      setPageDetections(byPage);
+      setSelectedPdfPages(scanned.filter(p => shouldAnalyzePage(byPage[p])));
+      setStatus('selecting_pages');
+
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        reset();
+        return;
+      }
+      console.error(err);
+      setError(err.message || "Failed to scan pages.");
+      setStatus('error');
+      releasePdf();
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const analyzeSelectedPages = () => {
+    const handle = pdfHandleRef.current;
+    if (!handle || !pageDetections) return;
+
+    const sources: PageSource[] = selectedPdfPages.map(pageNumber => ({
+      pageNumber,
+      getImage: () => handle.renderPage(pageNumber),
+      renderRegion: (box) => handle.renderRegion(pageNumber, box),
+      getText: () => handle.extractText(pageNumber),
+    }));
+
+    const excluded = Array.from({ length: handle.numPages }, (_, i) => i + 1).filter(p => !selectedPdfPages.includes(p));
+    const notSchematic = excluded.filter(p => pageDetections[p] && !shouldAnalyzePage(pageDetections[p]));
+    const unrenderable = excluded.filter(p => unrenderablePages.includes(p));
+    const notSelected = excluded.filter(p => !notSchematic.includes(p) && !unrenderable.includes(p));
+
+    const skipped = [
+      notSelected.length > 0 && `${notSelected.length} not selected (${formatPageRanges(notSelected)})`,
+      notSchematic.length > 0 && `${notSchematic.length} without a schematic (${formatPageRanges(notSchematic)})`,
+      unrenderable.length > 0 && `${unrenderable.length} could not be rendered (${formatPageRanges(unrenderable)})`,
+    ].filter((s): s is string => !!s);
+
+    setThumbnails({});
+    analyzeSources(sources, skipped);
+  };
+
+  const analyzeSources = async (sources: PageSource[], skipped: string[]) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    
+    try {
       setStatus('analyzing');
-      setLoadingMessage(`Analyzing ${schematicIndices.length} schematic page(s)...`);
+      setLoadingMessage(`Analyzing ${sources.length} schematic page(s)...`);
+      setPageJobs(sources.map(source => ({ pageNumber: source.pageNumber, state: 'queued', attempt: 0 })));
 
-      const results: PageResult[] = [];
+      // Full-resolution images are rendered inside each job, so no more than
+      // ANALYSIS_CONCURRENCY of them are being produced at a time. They are
+      // kept so failed pages can be retried later.
+      const images = new Map<number, string>();
+      const textLayers = new Map<number, PageTextLayer>();
 
-      // Analyze each identified page
-      for (let i = 0; i < schematicIndices.length; i++) {
-        const pageIdx = schematicIndices[i];
-        setLoadingMessage(`Analyzing Page ${pageIdx + 1} (${i + 1}/${schematicIndices.length})...`);
-        
-        const imageData = images[pageIdx];
-        const analysis = await analyzeSchematicImage(imageData);
-        
-        results.push({
+      // Analyze the pages in parallel; one failure does not stop the others
+      const outcomes = await runJobs(
+        sources,
+        async (source, signal) => {
+          let image = images.get(source.pageNumber);
+          if (!image) {
+            image = await source.getImage();
+            images.set(source.pageNumber, image);
+          }
+          if (source.getText && !textLayers.has(source.pageNumber)) {
+            try {
+              const layer = await source.getText();
+              if (layer.items.length > 0) textLayers.set(source.pageNumber, layer);
+            } catch (e) {
+              console.warn(`Could not read the text layer of page ${source.pageNumber}`, e);
+            }
+          }
+          return analyzePage(image, signal, source.renderRegion, textLayers.get(source.pageNumber));
+        },
+        {
+          concurrency: ANALYSIS_CONCURRENCY,
+          signal: controller.signal,
+          onStateChange: (index, state, attempt) =>
+            setPageJobs(prev => prev.map((job, i) => i === index ? { ...job, state, attempt } : job)),
+        }
+      );
+
+      const results: PageResult[] = sources.map((source, i) => {
+        const outcome = outcomes[i];
+        return {
           id: crypto.randomUUID(),
-          pageNumber: pageIdx + 1,
-          image: imageData,
-          analysis
-        });
+          pageNumber: source.pageNumber,
+          image: images.get(source.pageNumber) || '',
+          analysis: createEmptyAnalysis(),
+          ...(outcome.status === 'fulfilled' && outcome.value),
+          ...(textLayers.has(source.pageNumber) && { textLayer: textLayers.get(source.pageNumber) }),
+          ...(outcome.status === 'rejected' && { error: outcome.error.message || "Analysis failed." }),
+          ...(outcome.status === 'cancelled' && { error: "Analysis was cancelled." }),
+        };
+      });
+
+      if (results.every(r => r.error)) {
+        if (controller.signal.aborted) {
+          reset();
+          return;
+        }
+        throw new Error(`All ${results.length} page(s) failed to analyze. ${results[0].error}`);
       }
 
+      results.forEach((result, i) => {
+        if (result.error) failedSourcesRef.current.set(result.id, sources[i]);
+      });
+      setSkippedNotice(skipped.length > 0 ? `Skipped pages: ${skipped.join('; ')}.` : null);
       setPages(results);
       setActivePageIndex(0);
       setStatus('complete');
 
     } catch (err: any) {
+      if (controller.signal.aborted) {
+        reset();
+        return;
+      }
       console.error(err);
       setError(err.message || "Failed to process file.");
       setStatus('error');
+    } finally {
+      abortControllerRef.current = null;
+      if (failedSourcesRef.current.size === 0) releasePdf();
     }
   };
 
-  const handleLoadProject = (project: ProjectData) => {
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    setLoadingMessage("Cancelling...");
+  };
+
+  // Pages that were never rendered (cancelled early or failed to render) are
+  // rendered again from their source
+  const handleRetryPage = async (pageId: string) => {
+    const page = pages.find(p => p.id === pageId);
+    const source = failedSourcesRef.current.get(pageId);
+    if (!page || (!page.image && !source) || retryControllersRef.current.has(pageId)) return;
+
+    const controller = new AbortController();
+    retryControllersRef.current.set(pageId, controller);
+    setRetryingPageIds(prev => [...prev, pageId]);
+
+    let image = page.image;
+    let textLayer = page.textLayer;
+    const [outcome] = await runJobs([page], async (p, signal) => {
+      if (!image) image = await source!.getImage();
+      if (!textLayer && source?.getText) {
+        try {
+          const layer = await source.getText();
+          if (layer.items.length > 0) textLayer = layer;
+        } catch (e) {
+          console.warn(`Could not read the text layer of page ${p.pageNumber}`, e);
+        }
+      }
+      return analyzePage(image, signal, source?.renderRegion, textLayer);
+    }, { concurrency: 1, signal: controller.signal });
+
+    // A reset or another document replaced the pages in the meantime
+    if (retryControllersRef.current.get(pageId) !== controller) return;
+    retryControllersRef.current.delete(pageId);
+
+    setPages(prev => prev.map(p => {
+      if (p.id !== pageId) return p;
+      const rendered = { ...p, image, ...(textLayer && { textLayer }) };
+      if (outcome.status === 'fulfilled') {
+        const { error: _, grounding: __, originalAnalysis: ___, ...rest } = rendered;
+        return { ...rest, ...outcome.value };
+      }
+      return { ...rendered, error: outcome.status === 'rejected' ? outcome.error.message : p.error };
+    }));
+    setRetryingPageIds(prev => prev.filter(id => id !== pageId));
+
+    if (outcome.status === 'fulfilled') {
+      history.clear(pageId);
+      failedSourcesRef.current.delete(pageId);
+      if (failedSourcesRef.current.size === 0) releasePdf();
+    }
+  };
+
+  const handleCancelRetry = (pageId: string) => {
+    retryControllersRef.current.get(pageId)?.abort();
+  };
+
+  const abortRetries = () => {
+    retryControllersRef.current.forEach(controller => controller.abort());
+    retryControllersRef.current.clear();
+    setRetryingPageIds([]);
+  };
+
+  const handleLoadProject = (project: ProjectData, location?: ProjectLocation) => {
+      abortRetries();
+      releasePdf();
       setPages(project.pages);
+      history.clear();
       setCurrentProjectId(project.id);
       setCurrentProjectName(project.name);
-      setActivePageIndex(0);
+      setActivePageIndex(Math.max(0, project.pages.findIndex(p => p.id === location?.pageId)));
+      setSelectedComponent(location?.designator ?? null);
+      setSelectedNet(location?.netId ?? null);
+      setViewScope('page');
+      setSkippedNotice(null);
       setStatus('complete');
       setIsLibraryOpen(false);
   };
@@ -146,18 +493,80 @@ const App: React.FC = () => {
     setLoadingMessage("");
     setCurrentProjectId(null);
     setCurrentProjectName("");
+    setViewScope('page');
+    setPageJobs([]);
+    abortRetries();
+    releasePdf();
+    setPdfFileName("");
+    setPdfPageCount(0);
+    setThumbnails({});
+    setSelectedPdfPages([]);
+    setPageDetections(null);
+    setUnrenderablePages([]);
+    setSkippedNotice(null);
+    setSelectedNet(null);
     setAnalysisUpdate(null, null); 
+    history.clear();
   };
 
   const setAnalysisUpdate = (pageIndex: number | null, updatedAnalysis: SchematicAnalysis | null) => {
     if (pageIndex === null || updatedAnalysis === null) return;
     setPages(prev => {
         const newPages = [...prev];
-        newPages[pageIndex] = { ...newPages[pageIndex], analysis: updatedAnalysis };
+        const page = newPages[pageIndex];
+        newPages[pageIndex] = { ...page, analysis: updatedAnalysis, originalAnalysis: page.originalAnalysis ?? page.analysis };
         return newPages;
     });
   };
 
+  // User edits go through here so they can be undone
+  const editAnalysis = (pageIndex: number, updatedAnalysis: SchematicAnalysis) => {
+    const page = pages[pageIndex];
+    if (!page) return;
+    history.record(page.id, page.analysis, updatedAnalysis);
+    setAnalysisUpdate(pageIndex, updatedAnalysis);
+  };
+
+  const handleUndo = () => {
+    const page = pages[activePageIndex];
+    const previous = page && history.undo(page.id, page.analysis);
+    if (previous) setAnalysisUpdate(activePageIndex, previous);
+  };
+
+  const handleRedo = () => {
+    const page = pages[activePageIndex];
+    const next = page && history.redo(page.id, page.analysis);
+    if (next) setAnalysisUpdate(activePageIndex, next);
+  };
+
+  const handleRevertToOriginal = () => {
+    const page = pages[activePageIndex];
+    if (!page?.originalAnalysis) return;
+    if (confirm('Discard all edits on this page and restore the original AI analysis? You can still undo this.')) {
+      editAnalysis(activePageIndex, page.originalAnalysis);
+    }
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo edits to the page on screen.
+  // Fields marked data-native-undo, like the chat box, keep the browser's own undo.
+  useEffect(() => {
+    if (status !== 'complete' || viewScope !== 'page') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if ((e.target as HTMLElement | null)?.closest?.('[data-native-undo]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleSelectComponent = (designator: string | null) => {
     if (designator === selectedComponent) {
       setSelectedComponent(null);
@@ -166,30 +575,20 @@ const App: React.FC = () => {
     }
   };
 
-  const handleExport = () => {
-    const exportData = {
-        metadata: {
-            exportedAt: new Date().toISOString(),
-            tool: "CircuitMind",
-            projectName: currentProjectName
-        },
-        pages: pages.map(p => ({
-            pageNumber: p.pageNumber,
-            analysis: p.analysis
-        }))
-    };
+  const handleSelectNet = (netId: string | null) => {
+    setSelectedNet(prev => (prev === netId ? null : netId));
+  };
 
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${currentProjectName.replace(/\s+/g, '-').toLowerCase()}-analysis.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+  const handleSelectProjectPin = (pageId: string, designator: string) => {
+    const pageIndex = pages.findIndex(p => p.id === pageId);
+    if (pageIndex === -1) return;
+    setActivePageIndex(pageIndex);
+    setSelectedComponent(designator);
   };
 
   const activePage = pages[activePageIndex];
+  const selectedNetData = selectedNet ? activePage?.analysis.netlist.find(n => n.id === selectedNet) : undefined;
+  const failedPageCount = pages.filter(p => p.error).length;
 
   return (
     <div className="min-h-screen bg-[#020617] text-slate-200 font-sans selection:bg-blue-500/30">
@@ -198,6 +597,9 @@ const App: React.FC = () => {
         isOpen={isLibraryOpen} 
         onClose={() => setIsLibraryOpen(false)} 
         onLoadProject={handleLoadProject}
+        onProjectInfoChange={(summary) => {
+          if (summary.id === currentProjectId) setCurrentProjectName(summary.name);
+        }}
         currentProjectId={currentProjectId || undefined}
       />
 
@@ -238,6 +640,7 @@ const App: React.FC = () => {
                 </button>
                 <span className="text-sm font-mono text-slate-400">
                     Page <span className="text-white">{activePage.pageNumber}</span> of {pages[pages.length-1].pageNumber} ({activePageIndex + 1}/{pages.length})
+                    {failedPageCount > 0 && <span className="ml-2 text-red-400">{failedPageCount} failed</span>}
                 </span>
                 <button 
                     onClick={() => setActivePageIndex(Math.min(pages.length - 1, activePageIndex + 1))}
@@ -251,13 +654,25 @@ const App: React.FC = () => {
 
         <div className="flex items-center gap-4">
           {status === 'complete' && (
-              <button 
-                onClick={handleExport}
-                className="flex items-center gap-2 text-xs font-medium bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded transition-colors text-white"
-              >
-                  <Download className="w-3 h-3" />
-                  <span className="hidden sm:inline">Export JSON</span>
-              </button>
+              <div className="flex items-center bg-slate-900 border border-slate-800 rounded-full p-0.5 text-xs">
+                {(['page', 'project', 'compare'] as const).map(scope => (
+                  <button
+                    key={scope}
+                    onClick={() => setViewScope(scope)}
+                    className={`px-3 py-1 rounded-full capitalize transition-colors ${viewScope === scope ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {scope}
+                  </button>
+                ))}
+              </div>
+          )}
+          {status === 'complete' && (
+              <ExportMenu 
+                projectId={currentProjectId || undefined}
+                projectName={currentProjectName}
+                pages={pages}
+                activePage={activePage}
+              />
           )}
           <a href="#" className="text-slate-400 hover:text-white transition-colors">
             <Github className="w-5 h-5" />
@@ -293,25 +708,51 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {status !== 'idle' && status !== 'complete' && status !== 'error' && (
-          <div className="flex-1 flex flex-col items-center justify-center">
-            <div className="relative">
-              <div className="absolute inset-0 bg-blue-500 blur-xl opacity-20 rounded-full"></div>
-              <Loader2 className="w-16 h-16 text-blue-500 animate-spin relative z-10" />
-            </div>
-            <h2 className="mt-8 text-2xl font-semibold text-white">Processing...</h2>
-            <p className="text-slate-400 mt-2 animate-pulse">{loadingMessage}</p>
-            
-            {/* Steps indicator */}
-            <div className="flex gap-2 mt-6">
-                <div className={`w-2 h-2 rounded-full ${status === 'rendering_pdf' ? 'bg-blue-500 animate-bounce' : 'bg-slate-700'}`}></div>
-                <div className={`w-2 h-2 rounded-full ${status === 'filtering' ? 'bg-blue-500 animate-bounce' : 'bg-slate-700'}`}></div>
-                <div className={`w-2 h-2 rounded-full ${status === 'analyzing' ? 'bg-blue-500 animate-bounce' : 'bg-slate-700'}`}></div>
-            </div>
+        {status === 'selecting_pages' && (
+          <PagePicker
+            fileName={pdfFileName}
+            numPages={pdfPageCount}
+            thumbnails={thumbnails}
+            selected={selectedPdfPages}
+            onChange={setSelectedPdfPages}
+            onConfirm={handleConfirmPages}
+            onCancel={reset}
+            detections={pageDetections || undefined}
+            tilingMode={tilingMode}
+            onTilingModeChange={setTilingMode}
+          />
+        )}
+
+        {status !== 'idle' && status !== 'selecting_pages' && status !== 'complete' && status !== 'error' && (
+          <AnalysisProgress 
+            status={status}
+            message={loadingMessage}
+            jobs={pageJobs}
+            onCancel={status === 'importing' || status === 'rendering_pdf' ? undefined : handleCancel}
+          />
+        )}
+
+        {status === 'complete' && skippedNotice && (
+          <div className="mb-4 flex items-start gap-3 px-4 py-2 bg-slate-900 border border-slate-800 rounded-lg text-sm text-slate-400">
+            <Info className="w-4 h-4 text-blue-400 mt-0.5 flex-shrink-0" />
+            <span className="flex-1">{skippedNotice}</span>
+            <button onClick={() => setSkippedNotice(null)} className="text-slate-500 hover:text-white" title="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
           </div>
         )}
 
-        {(status === 'complete' || status === 'error') && (
+        {status === 'complete' && viewScope === 'compare' && (
+          <CompareView
+            key={currentProjectId || 'unsaved'}
+            pages={pages}
+            projectId={currentProjectId}
+            projectName={currentProjectName}
+            activePageIndex={activePageIndex}
+          />
+        )}
+
+        {(status === 'error' || (status === 'complete' && viewScope !== 'compare')) && (
           <div className="flex-1 grid grid-cols-1 lg:grid-cols-12 gap-6 h-full min-h-0">
             {/* Left Panel: Image Viewer */}
             <div className="lg:col-span-5 flex flex-col bg-slate-900 rounded-xl border border-slate-800 overflow-hidden relative group">
@@ -328,6 +769,10 @@ const App: React.FC = () => {
                       components={activePage.analysis.components || []}
                       selectedDesignator={selectedComponent}
                       onSelectComponent={handleSelectComponent}
+                      onUpdateComponents={(components) => editAnalysis(activePageIndex, { ...activePage.analysis, components })}
+                      highlightedDesignators={selectedNetData ? getNetDesignators(selectedNetData) : null}
+                      highlightLabel={selectedNetData ? `Net ${selectedNetData.id}` : undefined}
+                      onClearHighlight={() => setSelectedNet(null)}
                    />
                  )}
                  {status === 'complete' && pages.length > 0 && (
@@ -354,14 +799,55 @@ const App: React.FC = () => {
                     Try Again
                   </button>
                 </div>
+              ) : status === 'complete' && viewScope === 'project' ? (
+                 <ProjectNetlistView 
+                    pages={pages}
+                    onSelectPin={handleSelectProjectPin}
+                 />
+              ) : status === 'complete' && activePage?.error ? (
+                <div className="h-full flex flex-col items-center justify-center bg-slate-900 rounded-xl border border-red-900/30 p-8 text-center">
+                  <div className="w-16 h-16 bg-red-900/20 rounded-full flex items-center justify-center mb-4">
+                    <XCircle className="w-8 h-8 text-red-500" />
+                  </div>
+                  <h3 className="text-xl font-bold text-red-400 mb-2">Page {activePage.pageNumber} Was Not Analyzed</h3>
+                  <p className="text-slate-400 max-w-md">{activePage.error}</p>
+                  <div className="mt-6 flex items-center gap-3">
+                    <button 
+                      onClick={() => handleRetryPage(activePage.id)}
+                      disabled={(!activePage.image && !failedSourcesRef.current.has(activePage.id)) || retryingPageIds.includes(activePage.id)}
+                      className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-lg text-white transition-colors"
+                    >
+                      {retryingPageIds.includes(activePage.id)
+                        ? <Loader2 className="w-4 h-4 animate-spin" />
+                        : <RotateCw className="w-4 h-4" />}
+                      Retry This Page
+                    </button>
+                    {retryingPageIds.includes(activePage.id) && (
+                      <button
+                        onClick={() => handleCancelRetry(activePage.id)}
+                        className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </div>
               ) : (
                  status === 'complete' && activePage && (
                    <AnalysisResult 
                       key={activePage.id} // Key ensures component resets on page change
                       data={activePage.analysis} 
-                      onUpdate={(data) => setAnalysisUpdate(activePageIndex, data)}
+                      onUpdate={(data) => editAnalysis(activePageIndex, data)}
+                      canUndo={history.canUndo(activePage.id)}
+                      canRedo={history.canRedo(activePage.id)}
+                      onUndo={handleUndo}
+                      onRedo={handleRedo}
+                      onRevertToOriginal={activePage.originalAnalysis && activePage.originalAnalysis !== activePage.analysis ? handleRevertToOriginal : undefined}
                       selectedDesignator={selectedComponent}
                       onSelectComponent={handleSelectComponent}
+                      grounding={activePage.grounding}
+                      selectedNet={selectedNet}
+                      onSelectNet={handleSelectNet}
                    />
                  )
               )}
@@ -0,0 +1,82 @@
+import React from 'react';
+import { AnalysisStatus } from '../types';
+import { JobState } from '../services/jobRunner';
+import { Loader2, CheckCircle2, XCircle, RotateCw, Clock, Ban } from 'lucide-react';
+
+export interface PageJob {
+  pageNumber: number;
+  state: JobState;
+  attempt: number;
+}
+
+interface AnalysisProgressProps {
+  status: AnalysisStatus;
+  message: string;
+  jobs: PageJob[];
+  onCancel?: () => void;
+}
+
+const JOB_STATE_STYLES: Record<JobState, { icon: React.ElementType; className: string; label: string }> = {
+  queued: { icon: Clock, className: 'text-slate-500 border-slate-800', label: 'Queued' },
+  running: { icon: Loader2, className: 'text-blue-400 border-blue-900/60', label: 'Analyzing' },
+  retrying: { icon: RotateCw, className: 'text-amber-400 border-amber-900/60', label: 'Retrying' },
+  done: { icon: CheckCircle2, className: 'text-green-400 border-green-900/60', label: 'Done' },
+  failed: { icon: XCircle, className: 'text-red-400 border-red-900/60', label: 'Failed' },
+  cancelled: { icon: Ban, className: 'text-slate-500 border-slate-800', label: 'Cancelled' },
+};
+
+const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ status, message, jobs, onCancel }) => {
+  const finished = jobs.filter(j => j.state === 'done' || j.state === 'failed' || j.state === 'cancelled').length;
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center">
+      <div className="relative">
+        <div className="absolute inset-0 bg-blue-500 blur-xl opacity-20 rounded-full"></div>
+        <Loader2 className="w-16 h-16 text-blue-500 animate-spin relative z-10" />
+      </div>
+      <h2 className="mt-8 text-2xl font-semibold text-white">Processing...</h2>
+      <p className="text-slate-400 mt-2 animate-pulse">{message}</p>
+      
+      {/* Steps indicator */}
+      <div className="flex gap-2 mt-6">
+          <div className={`w-2 h-2 rounded-full ${status === 'rendering_pdf' ? 'bg-blue-500 animate-bounce' : 'bg-slate-700'}`}></div>
+          <div className={`w-2 h-2 rounded-full ${status === 'filtering' ? 'bg-blue-500 animate-bounce' : 'bg-slate-700'}`}></div>
+          <div className={`w-2 h-2 rounded-full ${status === 'analyzing' ? 'bg-blue-500 animate-bounce' : 'bg-slate-700'}`}></div>
+      </div>
+
+      {status === 'analyzing' && jobs.length > 0 && (
+        <div className="mt-8 w-full max-w-2xl">
+          <div className="flex justify-between text-xs text-slate-500 mb-2">
+            <span>{finished} of {jobs.length} page(s) finished</span>
+          </div>
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mb-4">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${(finished / jobs.length) * 100}%` }} />
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 max-h-64 overflow-y-auto custom-scrollbar">
+            {jobs.map(job => {
+              const style = JOB_STATE_STYLES[job.state];
+              return (
+                <div key={job.pageNumber} className={`flex items-center gap-2 px-3 py-2 rounded border bg-slate-900 text-xs ${style.className}`}>
+                  <style.icon className={`w-3 h-3 flex-shrink-0 ${job.state === 'running' ? 'animate-spin' : ''}`} />
+                  <span className="font-mono text-slate-300">p{job.pageNumber}</span>
+                  <span className="truncate">{style.label}{job.state === 'retrying' ? ` (${job.attempt})` : ''}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-8 px-6 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 hover:text-white transition-colors text-sm"
+        >
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisProgress;
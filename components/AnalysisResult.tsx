@@ -1,23 +1,43 @@
-import React, { useState, useEffect } from 'react';
-import { SchematicAnalysis, SchematicComponent } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { PageGrounding, SchematicAnalysis, SchematicComponent } from '../types';
 import ComponentList, { COMPONENT_ICONS } from './ComponentList';
-import { CircuitBoard, Layers, AlertTriangle, Network, FileJson, MessageSquare, Pencil, Check, X, Info, Share2, Search } from 'lucide-react';
+import NetlistChecks from './NetlistChecks';
+import ConnectivityGraph from './ConnectivityGraph';
+import { CircuitBoard, Layers, AlertTriangle, Network, FileJson, MessageSquare, Pencil, Check, X, Info, Share2, Search, ShieldAlert, GitFork, Undo2, Redo2, RotateCcw } from 'lucide-react';
 import { chatWithSchematicContext } from '../services/geminiService';
+import { checkNetlist, getComponentNets, parsePinRef, sortFindings } from '../services/netlistService';
+import { groundingToFindings } from '../services/groundingService';
 
 interface AnalysisResultProps {
   data: SchematicAnalysis;
   onUpdate: (data: SchematicAnalysis) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevertToOriginal?: () => void; // Only set when the page has edits
   selectedDesignator: string | null;
   onSelectComponent: (designator: string) => void;
+  selectedNet: string | null;
+  onSelectNet: (netId: string) => void;
+  grounding?: PageGrounding; // Result of checking the analysis against the PDF text layer
 }
 
 const AnalysisResult: React.FC<AnalysisResultProps> = ({ 
   data, 
   onUpdate, 
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onRevertToOriginal,
   selectedDesignator, 
-  onSelectComponent 
+  onSelectComponent,
+  selectedNet,
+  onSelectNet,
+  grounding
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'components' | 'netlist' | 'structure' | 'json' | 'chat'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'components' | 'netlist' | 'graph' | 'checks' | 'structure' | 'json' | 'chat'>('overview');
   const [chatInput, setChatInput] = useState('');
   const [chatHistory, setChatHistory] = useState<{role: 'user' | 'model', text: string}[]>([]);
   const [isChatting, setIsChatting] = useState(false);
@@ -57,7 +77,30 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
     onUpdate({ ...data, potentialIssues: issues });
   }
 
+  const handleSelectNet = (netId: string) => {
+    setNetlistFilter(netId);
+    setActiveTab('netlist');
+    if (selectedNet !== netId) onSelectNet(netId);
+  };
+
+  const showHistoryButtons = isEditing || canUndo || canRedo;
+  // Room for the header buttons
+  const headerPadding = showHistoryButtons ? (onRevertToOriginal ? 'pr-44' : 'pr-32') : onRevertToOriginal ? 'pr-24' : 'pr-12';
+
   const selectedComponentData = data.components.find(c => c.designator === selectedDesignator);
+  const selectedComponentNets = selectedComponentData ? getComponentNets(data.netlist, selectedComponentData.designator) : [];
+
+  // Re-run the integrity rules whenever the analysis changes, including every edit.
+  // Designators the model missed stop being reported once they are added.
+  const findings = useMemo(() => {
+    if (!grounding) return checkNetlist(data);
+    const known = new Set(data.components.map(c => c.designator.toUpperCase()));
+    return sortFindings([
+      ...checkNetlist(data),
+      ...groundingToFindings({ ...grounding, missedDesignators: grounding.missedDesignators.filter(d => !known.has(d)) }),
+    ]);
+  }, [data, grounding]);
+  const errorCount = findings.filter(f => f.severity === 'error').length;
   
   const filteredNetlist = (data.netlist || []).filter(net => 
     net.id.toLowerCase().includes(netlistFilter.toLowerCase()) || 
@@ -69,6 +112,35 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
       {/* Header */}
       <div className="bg-slate-950 p-6 border-b border-slate-800 relative">
         <div className="absolute top-6 right-6 flex gap-2">
+           {showHistoryButtons && (
+             <>
+               <button
+                 onClick={onUndo}
+                 disabled={!canUndo}
+                 className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:bg-slate-800 disabled:hover:text-slate-400 transition-colors"
+                 title="Undo (Ctrl+Z)"
+               >
+                 <Undo2 className="w-5 h-5" />
+               </button>
+               <button
+                 onClick={onRedo}
+                 disabled={!canRedo}
+                 className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:bg-slate-800 disabled:hover:text-slate-400 transition-colors"
+                 title="Redo (Ctrl+Shift+Z)"
+               >
+                 <Redo2 className="w-5 h-5" />
+               </button>
+             </>
+           )}
+           {onRevertToOriginal && (
+             <button
+               onClick={onRevertToOriginal}
+               className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-amber-400 transition-colors"
+               title="Revert to Original AI Output"
+             >
+               <RotateCcw className="w-5 h-5" />
+             </button>
+           )}
            <button 
              onClick={() => setIsEditing(!isEditing)}
              className={`p-2 rounded-lg transition-colors ${isEditing ? 'bg-green-600 hover:bg-green-500 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white'}`}
@@ -78,7 +150,7 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
         </div>
 
         {isEditing ? (
-          <div className="pr-12 space-y-3">
+          <div className={`${headerPadding} space-y-3`}>
              <input 
                type="text" 
                value={data.title} 
@@ -94,7 +166,7 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
              />
           </div>
         ) : (
-          <div className="pr-12">
+          <div className={headerPadding}>
             <h2 className="text-2xl font-bold text-white flex items-center gap-2">
               <CircuitBoard className="text-blue-500" />
               {data.title || "Schematic Analysis"}
@@ -123,6 +195,25 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
                </div>
                <div className="text-white font-mono text-sm">{selectedComponentData.value}</div>
                {selectedComponentData.notes && <div className="text-xs text-slate-500 mt-0.5">{selectedComponentData.notes}</div>}
+               {selectedComponentNets.length > 0 && (
+                 <div className="flex flex-wrap gap-1 mt-1.5">
+                   {selectedComponentNets.map(({ net, pins }) => (
+                     <button
+                       key={net.id}
+                       onClick={() => onSelectNet(net.id)}
+                       title={pins.join(', ')}
+                       className={`px-1.5 py-0.5 text-[10px] font-mono rounded border transition-colors
+                         ${selectedNet === net.id
+                           ? 'bg-green-500/20 border-green-500 text-green-300'
+                           : 'bg-slate-900 border-slate-700 text-blue-300 hover:bg-slate-800'
+                         }
+                       `}
+                     >
+                       {net.id}
+                     </button>
+                   ))}
+                 </div>
+               )}
              </div>
           </div>
           <button 
@@ -140,6 +231,8 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
           { id: 'overview', label: 'Functional Blocks', icon: Layers },
           { id: 'components', label: 'Bill of Materials', icon: CircuitBoard },
           { id: 'netlist', label: 'Netlist', icon: Share2 },
+          { id: 'graph', label: 'Graph', icon: GitFork },
+          { id: 'checks', label: 'Integrity', icon: ShieldAlert, badge: errorCount },
           { id: 'structure', label: 'Logic Flow', icon: Network },
           { id: 'chat', label: 'Ask AI', icon: MessageSquare },
           { id: 'json', label: 'Raw Data', icon: FileJson },
@@ -155,6 +248,9 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
           >
             <tab.icon className="w-4 h-4" />
             {tab.label}
+            {!!tab.badge && (
+              <span className="ml-1 px-1.5 py-0.5 rounded-full bg-red-600 text-white text-[10px] leading-none">{tab.badge}</span>
+            )}
           </button>
         ))}
       </div>
@@ -248,6 +344,7 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
         {activeTab === 'components' && (
           <ComponentList 
             components={data.components} 
+            netlist={data.netlist}
             isEditing={isEditing}
             onUpdate={(newComponents) => handleFieldChange('components', newComponents)}
             selectedDesignator={selectedDesignator}
@@ -265,6 +362,7 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
                   placeholder="Filter by Net ID or Pin..." 
                   value={netlistFilter}
                   onChange={(e) => setNetlistFilter(e.target.value)}
+                  data-native-undo
                   className="w-full bg-slate-800/50 border border-slate-700 rounded-lg pl-10 pr-4 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
                 />
              </div>
@@ -279,15 +377,35 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
                   </thead>
                   <tbody className="divide-y divide-slate-800">
                     {filteredNetlist.length > 0 ? filteredNetlist.map((net, idx) => (
-                      <tr key={idx} className="hover:bg-slate-800/30 transition-colors">
-                        <td className="p-3 text-sm font-bold text-blue-400 font-mono align-top">{net.id}</td>
+                      <tr key={idx} className={`transition-colors ${selectedNet === net.id ? 'bg-green-900/10' : 'hover:bg-slate-800/30'}`}>
+                        <td className="p-3 text-sm font-bold font-mono align-top">
+                          <button
+                            onClick={() => onSelectNet(net.id)}
+                            className={`text-left hover:underline ${selectedNet === net.id ? 'text-green-400' : 'text-blue-400'}`}
+                            title="Highlight on the schematic"
+                          >
+                            {net.id}
+                          </button>
+                        </td>
                         <td className="p-3">
                           <div className="flex flex-wrap gap-2">
-                             {net.connectedPins.map((pin, pIdx) => (
-                               <span key={pIdx} className="bg-slate-800 border border-slate-700 text-slate-300 text-xs px-2 py-1 rounded font-mono">
-                                 {pin}
-                               </span>
-                             ))}
+                             {net.connectedPins.map((pin, pIdx) => {
+                               const isSelectedPart = !!selectedDesignator && parsePinRef(pin)?.designator === selectedDesignator.toUpperCase();
+                               return (
+                                 <button
+                                   key={pIdx}
+                                   onClick={() => selectedNet !== net.id && onSelectNet(net.id)}
+                                   className={`border text-xs px-2 py-1 rounded font-mono transition-colors
+                                     ${isSelectedPart
+                                       ? 'bg-yellow-500/20 border-yellow-500 text-yellow-400'
+                                       : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                                     }
+                                   `}
+                                 >
+                                   {pin}
+                                 </button>
+                               );
+                             })}
                           </div>
                         </td>
                       </tr>
@@ -307,6 +425,25 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
           </div>
         )}
 
+        {activeTab === 'graph' && (
+          <ConnectivityGraph
+            data={data}
+            selectedDesignator={selectedDesignator}
+            onSelectComponent={onSelectComponent}
+            selectedNet={selectedNet}
+            onSelectNet={onSelectNet}
+          />
+        )}
+
+        {activeTab === 'checks' && (
+          <NetlistChecks 
+            findings={findings}
+            selectedDesignator={selectedDesignator}
+            onSelectComponent={onSelectComponent}
+            onSelectNet={handleSelectNet}
+          />
+        )}
+
         {activeTab === 'structure' && (
           <div className="space-y-6">
             <div className="prose prose-invert max-w-none w-full">
@@ -377,6 +514,7 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({
                  value={chatInput}
                  onChange={(e) => setChatInput(e.target.value)}
                  onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
+                 data-native-undo
                  placeholder="Ask a question about the schematic..."
                  className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-4 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
                />
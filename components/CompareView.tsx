@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PageResult, ProjectData, ProjectSummary } from '../types';
+import InteractiveSchematicViewer from './InteractiveSchematicViewer';
+import { ComponentChange, DiffKind, diffAnalyses, diffHighlights } from '../services/diffService';
+import { getProject, getProjectSummaries } from '../services/storageService';
+import { ArrowLeftRight, GitCompare, Loader2 } from 'lucide-react';
+
+interface CompareViewProps {
+  pages: PageResult[];
+  projectId: string | null;
+  projectName: string;
+  activePageIndex: number;
+}
+
+// A side of the comparison: a page of the open project (projectId null) or of a saved one
+interface SideSelection {
+  projectId: string | null;
+  pageIndex: number;
+}
+
+const DIFF_COLORS: Record<DiffKind, string> = {
+  removed: '#f87171',
+  added: '#4ade80',
+  changed: '#fbbf24',
+};
+
+const DIFF_LABELS: Record<DiffKind, string> = {
+  removed: 'Removed',
+  added: 'Added',
+  changed: 'Changed',
+};
+
+const toColors = (kinds: Record<string, DiffKind>) =>
+  Object.fromEntries(Object.entries(kinds).map(([designator, kind]) => [designator, DIFF_COLORS[kind]]));
+
+const CompareView: React.FC<CompareViewProps> = ({ pages, projectId, projectName, activePageIndex }) => {
+  const [summaries, setSummaries] = useState<ProjectSummary[]>([]);
+  const [loadedProjects, setLoadedProjects] = useState<Record<string, ProjectData>>({});
+  const [loadingIds, setLoadingIds] = useState<string[]>([]);
+  const [before, setBefore] = useState<SideSelection>({ projectId: null, pageIndex: activePageIndex });
+  const [after, setAfter] = useState<SideSelection>({
+    projectId: null,
+    pageIndex: Math.min(activePageIndex + 1, pages.length - 1),
+  });
+  // Designator selected on each image; a change selects its part on both
+  const [selected, setSelected] = useState<{ before: string | null; after: string | null }>({ before: null, after: null });
+  const clearSelection = () => setSelected({ before: null, after: null });
+
+  useEffect(() => {
+    getProjectSummaries()
+      .then(all => setSummaries(all.filter(s => s.id !== projectId)))
+      .catch(e => console.error("Failed to load library", e));
+  }, [projectId]);
+
+  const pagesOf = (side: SideSelection) => side.projectId === null ? pages : loadedProjects[side.projectId]?.pages;
+  const pageOf = (side: SideSelection) => pagesOf(side)?.[side.pageIndex];
+
+  const selectProject = async (id: string | null, setSide: (side: SideSelection) => void) => {
+    setSide({ projectId: id, pageIndex: 0 });
+    clearSelection();
+    if (id === null || loadedProjects[id] || loadingIds.includes(id)) return;
+    setLoadingIds(prev => [...prev, id]);
+    try {
+      const project = await getProject(id);
+      if (project) setLoadedProjects(prev => ({ ...prev, [id]: project }));
+    } catch (e) {
+      console.error("Failed to open project", e);
+    } finally {
+      setLoadingIds(prev => prev.filter(x => x !== id));
+    }
+  };
+
+  const pageBefore = pageOf(before);
+  const pageAfter = pageOf(after);
+  const diff = useMemo(
+    () => pageBefore && pageAfter ? diffAnalyses(pageBefore.analysis, pageAfter.analysis) : null,
+    [pageBefore?.analysis, pageAfter?.analysis]
+  );
+  const highlights = useMemo(() => diff ? diffHighlights(diff) : null, [diff]);
+  const beforeColors = useMemo(() => highlights ? toColors(highlights.before) : undefined, [highlights]);
+  const afterColors = useMemo(() => highlights ? toColors(highlights.after) : undefined, [highlights]);
+
+  const handleSwap = () => {
+    setBefore(after);
+    setAfter(before);
+    setSelected({ before: selected.after, after: selected.before });
+  };
+
+  const isSelected = (change: ComponentChange) =>
+    (change.before?.designator ?? null) === selected.before && (change.after?.designator ?? null) === selected.after;
+
+  const selectChange = (change: ComponentChange) => setSelected(isSelected(change)
+    ? { before: null, after: null }
+    : { before: change.before?.designator ?? null, after: change.after?.designator ?? null });
+
+  // Clicking a changed part on either image selects its change; an unchanged part is selected on both sides
+  const handleSelectOnSide = (side: 'before' | 'after', designator: string | null) => {
+    const key = designator?.toUpperCase();
+    const change = diff?.components.find(c => c[side]?.designator.toUpperCase() === key);
+    if (change) selectChange(change);
+    else setSelected(!designator || selected[side] === designator ? { before: null, after: null } : { before: designator, after: designator });
+  };
+
+  const renderPicker = (label: string, side: SideSelection, setSide: (side: SideSelection) => void) => {
+    const sidePages = pagesOf(side);
+    return (
+      <div className="flex-1 flex items-center gap-2 min-w-0">
+        <span className="text-xs uppercase tracking-wider text-slate-500 w-12">{label}</span>
+        <select
+          value={side.projectId ?? ''}
+          onChange={(e) => selectProject(e.target.value || null, setSide)}
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+        >
+          <option value="">{projectName || 'Current document'}</option>
+          {summaries.map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        {side.projectId && loadingIds.includes(side.projectId) ? (
+          <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+        ) : (
+          <select
+            value={side.pageIndex}
+            onChange={(e) => { setSide({ ...side, pageIndex: Number(e.target.value) }); clearSelection(); }}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+          >
+            {(sidePages || []).map((p, i) => (
+              <option key={p.id} value={i}>Page {p.pageNumber}{p.error ? ' (failed)' : ''}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  };
+
+  const renderViewer = (page: PageResult | undefined, side: 'before' | 'after', colors?: Record<string, string>) => (
+    <div className="flex-1 min-h-[360px] bg-[#050b14] rounded-lg border border-slate-800 overflow-hidden relative">
+      {page ? (
+        <InteractiveSchematicViewer
+          imageUrl={page.image}
+          components={page.analysis.components || []}
+          selectedDesignator={selected[side]}
+          onSelectComponent={(designator) => handleSelectOnSide(side, designator)}
+          boxColors={colors}
+        />
+      ) : (
+        <div className="h-full flex items-center justify-center text-slate-600 text-sm">No page selected</div>
+      )}
+    </div>
+  );
+
+  const describe = (change: ComponentChange) => {
+    if (change.kind === 'added') return `${change.after!.value} (${change.after!.type})`;
+    if (change.kind === 'removed') return `${change.before!.value} (${change.before!.type})`;
+    return change.fields.map(field => {
+      if (field === 'designator') return `renumbered ${change.before!.designator} → ${change.after!.designator}`;
+      return `${field} ${change.before![field] || '—'} → ${change.after![field] || '—'}`;
+    }).join(', ');
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-4 min-h-0 overflow-y-auto custom-scrollbar">
+      <div className="flex flex-col md:flex-row items-stretch md:items-center gap-3 p-3 bg-slate-900 rounded-xl border border-slate-800">
+        {renderPicker('Before', before, setBefore)}
+        <button
+          onClick={handleSwap}
+          className="self-center p-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white transition-colors"
+          title="Swap Sides"
+        >
+          <ArrowLeftRight className="w-4 h-4" />
+        </button>
+        {renderPicker('After', after, setAfter)}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-4">
+        {renderViewer(pageBefore, 'before', beforeColors)}
+        {renderViewer(pageAfter, 'after', afterColors)}
+      </div>
+
+      <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <GitCompare className="text-blue-500" />
+            Revision Differences
+          </h2>
+          <div className="flex items-center gap-4 text-xs text-slate-400">
+            {(Object.keys(DIFF_COLORS) as DiffKind[]).map(kind => (
+              <span key={kind} className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-sm border-2" style={{ borderColor: DIFF_COLORS[kind] }} />
+                {DIFF_LABELS[kind]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {!diff ? (
+          <p className="text-slate-500 text-sm">Pick a page on each side to compare.</p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-400">
+              {diff.components.length} component change(s), {diff.unchangedComponents} unchanged.
+              {' '}{diff.nets.length} net change(s), {diff.unchangedNets} unchanged.
+              {pageBefore === pageAfter && ' Both sides show the same page.'}
+            </p>
+
+            {diff.components.length > 0 && (
+              <div className="bg-slate-900 border border-slate-800 rounded-lg overflow-hidden">
+                <table className="w-full text-left border-collapse text-sm">
+                  <thead>
+                    <tr className="bg-slate-950 border-b border-slate-800 text-slate-400 text-xs uppercase tracking-wider">
+                      <th className="p-3 font-medium w-24">Change</th>
+                      <th className="p-3 font-medium w-32">Designator</th>
+                      <th className="p-3 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {diff.components.map((change, i) => (
+                      <tr
+                        key={i}
+                        onClick={() => selectChange(change)}
+                        className={`cursor-pointer transition-colors ${isSelected(change) ? 'bg-yellow-900/20' : 'hover:bg-slate-800/30'}`}
+                      >
+                        <td className="p-3">
+                          <span className="text-xs font-medium" style={{ color: DIFF_COLORS[change.kind] }}>{DIFF_LABELS[change.kind]}</span>
+                        </td>
+                        <td className="p-3 font-mono text-slate-200">
+                          {change.kind === 'changed' && change.before!.designator !== change.after!.designator
+                            ? `${change.before!.designator} → ${change.after!.designator}`
+                            : (change.before || change.after)!.designator}
+                        </td>
+                        <td className="p-3 text-slate-400">{describe(change)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {diff.nets.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-slate-300">Nets</h3>
+                {diff.nets.map((net, i) => (
+                  <div key={i} className="p-3 bg-slate-800/40 border border-slate-800 rounded-lg text-sm">
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs font-medium w-16" style={{ color: DIFF_COLORS[net.kind] }}>{DIFF_LABELS[net.kind]}</span>
+                      <span className="font-mono text-green-400">
+                        {net.before && net.after && net.before !== net.after ? `${net.before} → ${net.after}` : net.before || net.after}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5 mt-2 ml-20">
+                      {net.removedPins.map(pin => (
+                        <span key={`-${pin}`} className="px-2 py-0.5 rounded border border-red-900/50 bg-red-950/30 text-red-300 text-xs font-mono">−{pin}</span>
+                      ))}
+                      {net.addedPins.map(pin => (
+                        <span key={`+${pin}`} className="px-2 py-0.5 rounded border border-green-900/50 bg-green-950/30 text-green-300 text-xs font-mono">+{pin}</span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.components.length === 0 && diff.nets.length === 0 && (
+              <p className="text-slate-500 text-sm">No differences in components or connectivity.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
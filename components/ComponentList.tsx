@@ -1,5 +1,8 @@
-import React, { useEffect, useRef } from 'react';
-import { SchematicComponent } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ComponentPin, Net, PinElectricalType, SchematicComponent } from '../types';
+import { findComponentPin, getNetPinRefs } from '../services/netlistService';
+import { PIN_ELECTRICAL_TYPES } from '../services/validationService';
+import { compareValues, formatValue, isUnparsedValue, parseComponentValue, parseValue, ParsedValue, sameQuantity } from '../services/valueService';
 import { 
   Activity, 
   Cpu, 
@@ -14,7 +17,12 @@ import {
   Plug, 
   ArrowDown, 
   Box, 
-  Waves 
+  Waves,
+  X,
+  Search,
+  AlertTriangle,
+  ChevronUp,
+  ChevronDown
 } from 'lucide-react';
 
 // Export for use in other components (AnalysisResult)
@@ -34,20 +42,83 @@ export const COMPONENT_ICONS: Record<string, React.ElementType> = {
 
 interface ComponentListProps {
   components: SchematicComponent[];
+  netlist?: Net[]; // Used to show the net on each pin
   isEditing?: boolean;
   onUpdate?: (components: SchematicComponent[]) => void;
   selectedDesignator?: string | null;
   onSelectComponent?: (designator: string) => void;
 }
 
+type SortKey = 'designator' | 'type' | 'value';
+
+interface ComponentRow {
+  comp: SchematicComponent;
+  index: number; // Position in the unsorted list, used for edits
+  parsed: ParsedValue;
+}
+
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+// ">10k", "<=1u"
+const COMPARISON_PATTERN = /^([<>]=?)\s*(.+)$/;
+
+/**
+ * Matches a row against the filter text. Comparisons select values by
+ * magnitude, a plain quantity such as "10k" matches equal values however they
+ * are written, and anything else is a text search.
+ */
+const matchesFilter = ({ comp, parsed }: ComponentRow, filter: string): boolean => {
+  const text = filter.trim();
+  if (!text) return true;
+
+  const comparison = text.match(COMPARISON_PATTERN);
+  if (comparison) {
+    const bound = parseValue(comparison[2], parsed.unit);
+    if (bound.magnitude === null || parsed.magnitude === null) return false;
+    if (bound.unit && parsed.unit && bound.unit !== parsed.unit) return false;
+    switch (comparison[1]) {
+      case '>': return parsed.magnitude > bound.magnitude;
+      case '>=': return parsed.magnitude >= bound.magnitude;
+      case '<': return parsed.magnitude < bound.magnitude;
+      default: return parsed.magnitude <= bound.magnitude;
+    }
+  }
+
+  const quantity = parseValue(text, parsed.unit);
+  if (quantity.magnitude !== null && parsed.magnitude !== null && sameQuantity(quantity, parsed)) return true;
+
+  const needle = text.toLowerCase();
+  return [comp.designator, comp.type, comp.value, comp.notes].some(field => (field || '').toLowerCase().includes(needle));
+};
+
+/**
+ * Nets each pin of a component is on, keyed by pin number.
+ */
+const getPinNets = (component: SchematicComponent, netlist: Net[]): Map<string, string[]> => {
+  const key = component.designator.trim().toUpperCase();
+  const pinNets = new Map<string, string[]>();
+  netlist.forEach(net => getNetPinRefs(net).forEach(ref => {
+    if (ref.designator !== key) return;
+    const number = findComponentPin(component, ref.pin)?.number;
+    if (!number) return;
+    if (!pinNets.has(number)) pinNets.set(number, []);
+    if (!pinNets.get(number)!.includes(net.id)) pinNets.get(number)!.push(net.id);
+  }));
+  return pinNets;
+};
+
 const ComponentList: React.FC<ComponentListProps> = ({ 
   components, 
+  netlist = [], 
   isEditing = false, 
   onUpdate,
   selectedDesignator,
   onSelectComponent
 }) => {
   const selectedRef = useRef<HTMLTableRowElement>(null);
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean } | null>(null);
+  const [unparsedOnly, setUnparsedOnly] = useState(false);
 
   // Auto-scroll to selected item
   useEffect(() => {
@@ -65,6 +136,24 @@ const ComponentList: React.FC<ComponentListProps> = ({
     onUpdate(newComponents);
   };
 
+  const handlePinsChange = (index: number, pins: ComponentPin[]) => {
+    if (!onUpdate) return;
+    const newComponents = [...components];
+    newComponents[index] = { ...newComponents[index], pins };
+    onUpdate(newComponents);
+  };
+
+  const handlePinChange = (index: number, pinIndex: number, changes: Partial<ComponentPin>) => {
+    const pins = [...(components[index].pins || [])];
+    pins[pinIndex] = { ...pins[pinIndex], ...changes };
+    handlePinsChange(index, pins);
+  };
+
+  const handleAddPin = (index: number) => {
+    const pins = components[index].pins || [];
+    handlePinsChange(index, [...pins, { number: String(pins.length + 1), electricalType: 'unspecified' }]);
+  };
+
   const handleDelete = (index: number) => {
     if (!onUpdate) return;
     const newComponents = components.filter((_, i) => i !== index);
@@ -83,26 +172,74 @@ const ComponentList: React.FC<ComponentListProps> = ({
     onUpdate([...components, newComponent]);
   };
 
+  const allRows: ComponentRow[] = components.map((comp, index) => ({ comp, index, parsed: parseComponentValue(comp) }));
+  const unparsedCount = allRows.filter(row => isUnparsedValue(row.parsed)).length;
+  const rows = allRows.filter(row => matchesFilter(row, filter) && (!unparsedOnly || isUnparsedValue(row.parsed)));
+  if (sort) {
+    const compare = (a: ComponentRow, b: ComponentRow) =>
+      sort.key === 'value' ? compareValues(a.parsed, b.parsed) : naturalCompare(a.comp[sort.key] || '', b.comp[sort.key] || '');
+    rows.sort((a, b) => (sort.descending ? -compare(a, b) : compare(a, b)));
+  }
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => (prev?.key !== key ? { key, descending: false } : prev.descending ? null : { key, descending: true }));
+  };
+
+  const sortHeader = (key: SortKey, label: string) => (
+    <th className="p-3 font-medium">
+      <button onClick={() => toggleSort(key)} className="flex items-center gap-1 uppercase tracking-wider hover:text-white transition-colors">
+        {label}
+        {sort?.key === key && (sort.descending ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
   return (
     <div className="overflow-x-auto pb-20"> {/* Extra padding for scroll */}
+      <div className="flex items-center gap-2 mb-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+          <input
+            type="text"
+            placeholder="Filter by text or value, e.g. U1, 10k, >1u"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            data-native-undo
+            className="w-full bg-slate-800/50 border border-slate-700 rounded-lg pl-10 pr-4 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        {unparsedCount > 0 && (
+          <button
+            onClick={() => setUnparsedOnly(!unparsedOnly)}
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-lg border text-xs transition-colors ${unparsedOnly ? 'bg-amber-900/30 border-amber-600 text-amber-300' : 'border-slate-700 text-amber-400 hover:bg-slate-800'}`}
+            title="Show only values that could not be fully read"
+          >
+            <AlertTriangle className="w-3 h-3" />
+            {unparsedCount} unparsed
+          </button>
+        )}
+      </div>
       <table className="w-full text-left border-collapse">
         <thead>
           <tr className="border-b border-slate-700 text-slate-400 text-sm uppercase tracking-wider sticky top-0 bg-slate-900 z-10">
-            <th className="p-3 font-medium">Des</th>
-            <th className="p-3 font-medium">Type</th>
-            <th className="p-3 font-medium">Value</th>
+            {sortHeader('designator', 'Des')}
+            {sortHeader('type', 'Type')}
+            {sortHeader('value', 'Value')}
             <th className="p-3 font-medium">Notes</th>
+            <th className="p-3 font-medium">Pins</th>
             {isEditing && <th className="p-3 font-medium w-10"></th>}
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-800">
-          {components.map((comp, idx) => {
+          {rows.map(({ comp, index: idx, parsed }) => {
             const isSelected = selectedDesignator === comp.designator;
             const Icon = COMPONENT_ICONS[comp.icon || 'generic'] || Box;
+            const pins = comp.pins || [];
+            const pinNets = isSelected && pins.length > 0 ? getPinNets(comp, netlist) : null;
 
             return (
+              <React.Fragment key={idx}>
               <tr 
-                key={idx} 
                 ref={isSelected ? selectedRef : null}
                 onClick={() => onSelectComponent && onSelectComponent(comp.designator)}
                 className={`transition-colors text-slate-300 text-sm cursor-pointer border-l-2
@@ -150,8 +287,13 @@ const ComponentList: React.FC<ComponentListProps> = ({
                       onChange={(e) => handleChange(idx, 'value', e.target.value)}
                       className="bg-slate-900 border border-slate-700 rounded px-2 py-1 w-full font-mono text-slate-300 focus:border-blue-500 outline-none"
                     />
+                  ) : isUnparsedValue(parsed) ? (
+                    <span className="flex items-center gap-1.5" title={`Could not read: ${parsed.unparsed.join(', ')}`}>
+                      {comp.value}
+                      <AlertTriangle className="w-3 h-3 text-amber-400 flex-shrink-0" />
+                    </span>
                   ) : (
-                    comp.value || "-"
+                    <span title={parsed.magnitude !== null ? formatValue(parsed) : undefined}>{comp.value || "-"}</span>
                   )}
                 </td>
                 <td className="p-3 text-slate-400">
@@ -166,6 +308,9 @@ const ComponentList: React.FC<ComponentListProps> = ({
                     comp.notes
                   )}
                 </td>
+                <td className="p-3 text-slate-500 font-mono text-xs">
+                  {pins.length > 0 ? pins.length : '-'}
+                </td>
                 {isEditing && (
                   <td className="p-3 text-center">
                     <button 
@@ -177,8 +322,77 @@ const ComponentList: React.FC<ComponentListProps> = ({
                   </td>
                 )}
               </tr>
+              {isSelected && (pins.length > 0 || isEditing) && (
+                <tr className="bg-yellow-900/10">
+                  <td colSpan={isEditing ? 6 : 5} className="px-3 pb-3 pt-1">
+                    {isEditing ? (
+                      <div className="space-y-1">
+                        {pins.map((pin, pIdx) => (
+                          <div key={pIdx} className="flex items-center gap-1">
+                            <input
+                              type="text"
+                              value={pin.number}
+                              onChange={(e) => handlePinChange(idx, pIdx, { number: e.target.value })}
+                              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 w-14 text-xs font-mono text-slate-300 focus:border-blue-500 outline-none"
+                              placeholder="#"
+                            />
+                            <input
+                              type="text"
+                              value={pin.name || ''}
+                              onChange={(e) => handlePinChange(idx, pIdx, { name: e.target.value })}
+                              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 w-28 text-xs font-mono text-slate-300 focus:border-blue-500 outline-none"
+                              placeholder="Name"
+                            />
+                            <select
+                              value={pin.electricalType || 'unspecified'}
+                              onChange={(e) => handlePinChange(idx, pIdx, { electricalType: e.target.value as PinElectricalType })}
+                              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:border-blue-500 outline-none"
+                            >
+                              {PIN_ELECTRICAL_TYPES.map(t => <option key={t} value={t}>{t.replace('_', ' ')}</option>)}
+                            </select>
+                            <button
+                              onClick={() => handlePinsChange(idx, pins.filter((_, i) => i !== pIdx))}
+                              className="text-slate-600 hover:text-red-400 transition-colors p-1"
+                              title="Remove Pin"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => handleAddPin(idx)}
+                          className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 px-2 py-1"
+                        >
+                          <Plus className="w-3 h-3" />
+                          Add Pin
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap gap-1.5">
+                        {pins.map((pin, pIdx) => (
+                          <span
+                            key={pIdx}
+                            className="text-[11px] px-2 py-0.5 rounded border border-slate-700 bg-slate-900 font-mono text-slate-300"
+                            title={pin.electricalType ? pin.electricalType.replace('_', ' ') : undefined}
+                          >
+                            <span className="text-slate-500">{pin.number}</span>
+                            {pin.name && <span className="ml-1">{pin.name}</span>}
+                            {pinNets?.get(pin.number) && <span className="ml-1 text-green-400">→ {pinNets.get(pin.number)!.join(', ')}</span>}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              )}
+              </React.Fragment>
             );
           })}
+          {rows.length === 0 && components.length > 0 && (
+            <tr>
+              <td colSpan={isEditing ? 6 : 5} className="p-8 text-center text-slate-500 italic">No components match your filter.</td>
+            </tr>
+          )}
         </tbody>
       </table>
       {isEditing && (
@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SchematicAnalysis } from '../types';
+import { buildConnectivityGraph, componentNodeId, GraphNode } from '../services/graphService';
+import { Maximize, GitFork } from 'lucide-react';
+
+interface ConnectivityGraphProps {
+  data: SchematicAnalysis;
+  selectedDesignator: string | null;
+  onSelectComponent: (designator: string) => void;
+  selectedNet: string | null;
+  onSelectNet: (netId: string) => void;
+}
+
+interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Node fill per component icon category
+const ICON_COLORS: Record<string, string> = {
+  resistor: '#60a5fa',
+  capacitor: '#34d399',
+  inductor: '#a78bfa',
+  diode: '#f87171',
+  transistor: '#fb923c',
+  chip: '#facc15',
+  switch: '#f472b6',
+  connector: '#22d3ee',
+  ground: '#94a3b8',
+  power: '#ef4444',
+  generic: '#cbd5e1',
+};
+
+const BLOCK_COLORS = ['#3b82f6', '#22c55e', '#a855f7', '#f59e0b', '#ec4899', '#14b8a6', '#f97316', '#6366f1'];
+
+const COMPONENT_RADIUS = 10;
+const NET_RADIUS = 4;
+const BLOCK_PADDING = 28;
+const VIEW_PADDING = 60;
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+const ConnectivityGraph: React.FC<ConnectivityGraphProps> = ({
+  data,
+  selectedDesignator,
+  onSelectComponent,
+  selectedNet,
+  onSelectNet
+}) => {
+  const [hideSupplyNets, setHideSupplyNets] = useState(true);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: ViewBox } | null>(null);
+
+  const graph = useMemo(
+    () => buildConnectivityGraph(data, hideSupplyNets),
+    [data.components, data.netlist, data.functionalBlocks, hideSupplyNets]
+  );
+
+  const bounds = useMemo((): ViewBox => {
+    if (graph.nodes.length === 0) return { x: -100, y: -100, width: 200, height: 200 };
+    const xs = graph.nodes.map(n => n.x);
+    const ys = graph.nodes.map(n => n.y);
+    const x = Math.min(...xs) - VIEW_PADDING;
+    const y = Math.min(...ys) - VIEW_PADDING;
+    return { x, y, width: Math.max(...xs) + VIEW_PADDING - x, height: Math.max(...ys) + VIEW_PADDING - y };
+  }, [graph]);
+
+  const [view, setView] = useState<ViewBox>(bounds);
+  useEffect(() => setView(bounds), [bounds]);
+
+  // Zoom toward the cursor; registered natively because React's wheel listener is passive
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const factor = Math.exp(e.deltaY * WHEEL_ZOOM_SPEED);
+      setView(v => {
+        // With preserveAspectRatio="xMidYMid meet" one axis has letterboxing
+        const unit = Math.max(v.width / rect.width, v.height / rect.height);
+        const px = v.x + v.width / 2 + (e.clientX - rect.left - rect.width / 2) * unit;
+        const py = v.y + v.height / 2 + (e.clientY - rect.top - rect.height / 2) * unit;
+        return { x: px - (px - v.x) * factor, y: py - (py - v.y) * factor, width: v.width * factor, height: v.height * factor };
+      });
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  });
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const unit = Math.max(drag.view.width / rect.width, drag.view.height / rect.height);
+    setView({ ...drag.view, x: drag.view.x - (e.clientX - drag.x) * unit, y: drag.view.y - (e.clientY - drag.y) * unit });
+  };
+
+  const nodesById = useMemo(() => new Map(graph.nodes.map(n => [n.id, n])), [graph]);
+
+  // Everything one hop from the selected component or net stays lit
+  const focus = useMemo(() => {
+    const focusId = selectedNet
+      ? graph.nodes.find(n => n.netId === selectedNet)?.id
+      : selectedDesignator ? componentNodeId(selectedDesignator) : undefined;
+    if (!focusId || !nodesById.has(focusId)) return null;
+    const ids = new Set([focusId]);
+    graph.edges.forEach(e => {
+      if (e.source === focusId) ids.add(e.target);
+      if (e.target === focusId) ids.add(e.source);
+    });
+    return { id: focusId, ids };
+  }, [graph, nodesById, selectedDesignator, selectedNet]);
+
+  const blockHulls = (data.functionalBlocks || []).map((block, b) => {
+    const members = graph.nodes.filter(n => n.block === b);
+    if (members.length === 0) return null;
+    const xs = members.map(n => n.x);
+    const ys = members.map(n => n.y);
+    return {
+      name: block.name,
+      color: BLOCK_COLORS[b % BLOCK_COLORS.length],
+      x: Math.min(...xs) - BLOCK_PADDING,
+      y: Math.min(...ys) - BLOCK_PADDING,
+      width: Math.max(...xs) - Math.min(...xs) + BLOCK_PADDING * 2,
+      height: Math.max(...ys) - Math.min(...ys) + BLOCK_PADDING * 2,
+    };
+  });
+
+  const usedIcons = [...new Set<string>(graph.nodes.filter(n => n.kind === 'component').map(n => n.icon || 'generic'))];
+  const isDimmed = (node: GraphNode) => !!focus && !focus.ids.has(node.id);
+
+  if (graph.nodes.length === 0) {
+    return (
+      <div className="text-center py-12 text-slate-500">
+        <GitFork className="w-12 h-12 mx-auto mb-3 opacity-30" />
+        <p>No components to draw.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+        {usedIcons.map(icon => (
+          <span key={icon} className="flex items-center gap-1.5 capitalize">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: ICON_COLORS[icon] || ICON_COLORS.generic }} />
+            {icon}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="w-1.5 h-1.5 rounded-full bg-slate-500" />
+          net
+        </span>
+        <div className="ml-auto flex items-center gap-3">
+          <label className="flex items-center gap-1.5 cursor-pointer" title="Ground and supply rails connect most parts and hide the signal paths">
+            <input
+              type="checkbox"
+              checked={hideSupplyNets}
+              onChange={(e) => setHideSupplyNets(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Hide supply nets{graph.hiddenNets.length > 0 && ` (${graph.hiddenNets.length})`}
+          </label>
+          <button
+            onClick={() => setView(bounds)}
+            className="p-1.5 bg-slate-800 hover:bg-slate-700 rounded text-slate-300"
+            title="Fit Graph"
+          >
+            <Maximize className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+        preserveAspectRatio="xMidYMid meet"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        className="w-full h-[520px] bg-slate-950 rounded-lg border border-slate-800 cursor-grab active:cursor-grabbing touch-none select-none"
+      >
+        {blockHulls.map((hull, b) => hull && (
+          <g key={b}>
+            <rect
+              x={hull.x}
+              y={hull.y}
+              width={hull.width}
+              height={hull.height}
+              rx={16}
+              fill={hull.color}
+              fillOpacity={0.06}
+              stroke={hull.color}
+              strokeOpacity={0.4}
+              strokeDasharray="6 4"
+            />
+            <text x={hull.x + 8} y={hull.y + 14} fontSize={11} fill={hull.color} fillOpacity={0.9}>{hull.name}</text>
+          </g>
+        ))}
+
+        {graph.edges.map((edge, i) => {
+          const source = nodesById.get(edge.source)!;
+          const target = nodesById.get(edge.target)!;
+          const isLit = !!focus && (edge.source === focus.id || edge.target === focus.id);
+          return (
+            <line
+              key={i}
+              x1={source.x}
+              y1={source.y}
+              x2={target.x}
+              y2={target.y}
+              stroke={isLit ? (selectedNet ? '#4ade80' : '#facc15') : '#475569'}
+              strokeWidth={isLit ? 2 : 1}
+              strokeOpacity={focus && !isLit ? 0.2 : 0.7}
+            >
+              <title>{edge.pins.join(', ')}</title>
+            </line>
+          );
+        })}
+
+        {graph.nodes.map(node => {
+          const dimmed = isDimmed(node);
+          if (node.kind === 'net') {
+            const isSelected = node.netId === selectedNet;
+            return (
+              <g
+                key={node.id}
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onSelectNet(node.netId!)}
+                className="cursor-pointer"
+                opacity={dimmed ? 0.25 : 1}
+              >
+                <circle cx={node.x} cy={node.y} r={isSelected ? NET_RADIUS * 1.6 : NET_RADIUS} fill={isSelected ? '#4ade80' : '#64748b'} />
+                <text x={node.x + NET_RADIUS + 3} y={node.y + 3} fontSize={9} fill={isSelected ? '#4ade80' : '#94a3b8'} fontFamily="monospace">
+                  {node.label}
+                </text>
+                <title>Net {node.label}</title>
+              </g>
+            );
+          }
+
+          const isSelected = !!selectedDesignator && node.designator === selectedDesignator.toUpperCase();
+          const component = data.components.find(c => c.designator.toUpperCase() === node.designator);
+          return (
+            <g
+              key={node.id}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onSelectComponent(node.label)}
+              className="cursor-pointer"
+              opacity={dimmed ? 0.25 : 1}
+            >
+              <circle
+                cx={node.x}
+                cy={node.y}
+                r={COMPONENT_RADIUS}
+                fill={ICON_COLORS[node.icon || 'generic'] || ICON_COLORS.generic}
+                stroke={isSelected ? '#facc15' : '#0f172a'}
+                strokeWidth={isSelected ? 4 : 2}
+              />
+              <text x={node.x} y={node.y + COMPONENT_RADIUS + 12} fontSize={11} textAnchor="middle" fill={isSelected ? '#facc15' : '#e2e8f0'} fontWeight="bold" fontFamily="monospace">
+                {node.label}
+              </text>
+              <title>{component ? `${component.designator}: ${component.value} (${component.type})` : node.label}</title>
+            </g>
+          );
+        })}
+      </svg>
+
+      <p className="text-xs text-slate-500">
+        Scroll to zoom, drag to pan. Click a component or net to select it on the schematic.
+      </p>
+    </div>
+  );
+};
+
+export default ConnectivityGraph;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { PageResult } from '../types';
+import { buildAnalysisExport, buildCsv, buildXlsx, downloadFile, toFileStem, XLSX_MIME_TYPE } from '../services/exportService';
+import { bomToRows, buildBom } from '../services/bomService';
+import { buildKicadNetlist } from '../services/kicadService';
+import { buildSpiceNetlist } from '../services/spiceService';
+import { buildPinTable } from '../services/netlistService';
+import { buildProjectBundle } from '../services/bundleService';
+import { getProjectSummary } from '../services/storageService';
+import { Download, ChevronDown, FileJson, Cpu, Activity, Table, FileSpreadsheet, AlertTriangle, X, ListOrdered, FileArchive } from 'lucide-react';
+
+interface ExportMenuProps {
+  projectId?: string; // Set once the project is in the library
+  projectName: string;
+  pages: PageResult[];
+  activePage?: PageResult;
+}
+
+interface ExportReport {
+  title: string;
+  warnings: string[];
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ projectId, projectName, pages, activePage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [report, setReport] = useState<ExportReport | null>(null);
+
+  const stem = toFileStem(projectName);
+  const pageStem = activePage ? `${stem}-p${activePage.pageNumber}` : stem;
+
+  const handleExportJson = () => {
+    const exportData = buildAnalysisExport(projectName, pages);
+    downloadFile(JSON.stringify(exportData, null, 2), `${stem}-analysis.json`, 'application/json');
+    setReport(null);
+  };
+
+  const handleExportBundle = async () => {
+    // Library tags and folder travel with the bundle
+    const summary = projectId ? await getProjectSummary(projectId).catch(() => undefined) : undefined;
+    const bundle = buildProjectBundle({
+      id: projectId || crypto.randomUUID(),
+      name: projectName,
+      timestamp: Date.now(),
+      pages,
+      ...(summary && { tags: summary.tags, folder: summary.folder || undefined }),
+    });
+    downloadFile(bundle, `${stem}.zip`, 'application/zip');
+
+    const missingImages = pages.filter(p => !p.image).map(p => `Page ${p.pageNumber} has no image`);
+    setReport(missingImages.length > 0 ? { title: `Project bundle: ${pages.length} page(s)`, warnings: missingImages } : null);
+  };
+
+  const handleExportKicad = () => {
+    if (!activePage) return;
+    const result = buildKicadNetlist(activePage.analysis, `${projectName} (page ${activePage.pageNumber})`);
+    downloadFile(result.content, `${pageStem}.net`, 'text/plain');
+
+    const warnings = [
+      ...result.unknownPins.map(p => `Net ${p.net}: pin "${p.pin}" references a designator not in the component list`),
+      ...result.malformedPins.map(p => `Net ${p.net}: could not parse pin "${p.pin}"`),
+    ];
+    setReport({
+      title: `KiCad netlist: ${result.componentCount} components, ${result.netCount} nets`,
+      warnings
+    });
+  };
+
+  const handleExportSpice = () => {
+    if (!activePage) return;
+    const result = buildSpiceNetlist(activePage.analysis);
+    downloadFile(result.content, `${pageStem}.cir`, 'text/plain');
+
+    const subcircuitSummary = result.subcircuits.length > 0 ? `, ${result.subcircuits.length} subcircuit stub(s)` : '';
+    setReport({
+      title: `SPICE netlist: ${result.elementCount} elements${subcircuitSummary}`,
+      warnings: [
+        ...result.unmapped.map(u => `${u.designator}: ${u.reason}`),
+        ...result.notes,
+      ]
+    });
+  };
+
+  const handleExportBomCsv = (scope: 'page' | 'project') => {
+    const scopePages = scope === 'page' && activePage ? [activePage] : pages;
+    const lines = buildBom(scopePages);
+    const fileStem = scope === 'page' ? pageStem : stem;
+    downloadFile(buildCsv(bomToRows(lines)), `${fileStem}-bom.csv`, 'text/csv');
+    setReport(null);
+  };
+
+  const handleExportBomXlsx = (scope: 'page' | 'project') => {
+    const scopePages = scope === 'page' && activePage ? [activePage] : pages;
+    const sheets = scope === 'page' && activePage
+      ? [{ name: `Page ${activePage.pageNumber}`, rows: bomToRows(buildBom([activePage])) }]
+      : [
+          { name: 'Project BOM', rows: bomToRows(buildBom(pages)) },
+          ...pages.map(p => ({ name: `Page ${p.pageNumber}`, rows: bomToRows(buildBom([p])) })),
+        ];
+    // Recorded pinouts go on their own sheet
+    const pinRows = buildPinTable(scopePages);
+    if (pinRows.length > 1) sheets.push({ name: 'Pins', rows: pinRows });
+    const fileStem = scope === 'page' ? pageStem : stem;
+    downloadFile(buildXlsx(sheets), `${fileStem}-bom.xlsx`, XLSX_MIME_TYPE);
+    setReport(null);
+  };
+
+  const handleExportPinsCsv = () => {
+    const rows = buildPinTable(pages);
+    downloadFile(buildCsv(rows), `${stem}-pins.csv`, 'text/csv');
+    setReport(rows.length > 1 ? null : { title: 'Pin table exported', warnings: ['No component in this project has recorded pins.'] });
+  };
+
+  const runExport = async (action: () => void | Promise<void>) => {
+    setIsOpen(false);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error("Export failed", err);
+      setReport({ title: 'Export failed', warnings: [err?.message || 'The file could not be created.'] });
+    }
+  };
+
+  const items = [
+    { id: 'json', label: 'Analysis JSON', hint: 'All pages', icon: FileJson, action: handleExportJson, disabled: false },
+    { id: 'bundle', label: 'Project Bundle (.zip)', hint: 'With page images', icon: FileArchive, action: handleExportBundle, disabled: false },
+    { id: 'kicad', label: 'KiCad Netlist (.net)', hint: 'Current page', icon: Cpu, action: handleExportKicad, disabled: !activePage },
+    { id: 'spice', label: 'SPICE Netlist (.cir)', hint: 'Current page', icon: Activity, action: handleExportSpice, disabled: !activePage },
+    { id: 'bom-csv-page', label: 'BOM (CSV)', hint: 'Current page', icon: Table, action: () => handleExportBomCsv('page'), disabled: !activePage },
+    { id: 'bom-csv-project', label: 'BOM (CSV)', hint: 'All pages', icon: Table, action: () => handleExportBomCsv('project'), disabled: false },
+    { id: 'bom-xlsx-page', label: 'BOM (XLSX)', hint: 'Current page', icon: FileSpreadsheet, action: () => handleExportBomXlsx('page'), disabled: !activePage },
+    { id: 'bom-xlsx-project', label: 'BOM (XLSX)', hint: 'All pages', icon: FileSpreadsheet, action: () => handleExportBomXlsx('project'), disabled: false },
+    { id: 'pins-csv', label: 'Pin Table (CSV)', hint: 'All pages', icon: ListOrdered, action: handleExportPinsCsv, disabled: false },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 text-xs font-medium bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded transition-colors text-white"
+      >
+          <Download className="w-3 h-3" />
+          <span className="hidden sm:inline">Export</span>
+          <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl overflow-hidden z-50">
+          {items.map(item => (
+            <button
+              key={item.id}
+              onClick={() => runExport(item.action)}
+              disabled={item.disabled}
+              className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm text-slate-300 hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <item.icon className="w-4 h-4 text-blue-400 flex-shrink-0" />
+              <span className="flex-1">{item.label}</span>
+              <span className="text-[10px] text-slate-500">{item.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {report && (
+        <div className="absolute right-0 mt-2 w-96 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl z-40 p-4">
+          <div className="flex items-start justify-between gap-2 mb-2">
+            <h4 className="text-sm font-semibold text-white">{report.title}</h4>
+            <button onClick={() => setReport(null)} className="text-slate-500 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {report.warnings.length === 0 ? (
+            <p className="text-xs text-green-400">Exported without warnings.</p>
+          ) : (
+            <>
+              <p className="text-xs text-amber-400 flex items-center gap-1 mb-2">
+                <AlertTriangle className="w-3 h-3" />
+                {report.warnings.length} item(s) need attention:
+              </p>
+              <ul className="max-h-48 overflow-y-auto space-y-1 text-xs font-mono text-slate-400 custom-scrollbar">
+                {report.warnings.map((w, i) => <li key={i}>{w}</li>)}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -1,36 +1,443 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { SchematicComponent } from '../types';
-import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { Maximize, ZoomIn, ZoomOut, ImageOff, SquarePen, Trash2, Check, X, MoveHorizontal, Crosshair } from 'lucide-react';
 
 interface InteractiveSchematicViewerProps {
   imageUrl: string;
   components: SchematicComponent[];
   selectedDesignator: string | null;
   onSelectComponent: (designator: string | null) => void;
+  // Enables box editing; receives the full component list after each change
+  onUpdateComponents?: (components: SchematicComponent[]) => void;
+  // Components to emphasize, e.g. those on the selected net; everything else is dimmed
+  highlightedDesignators?: string[] | null;
+  highlightLabel?: string;
+  onClearHighlight?: () => void;
+  // Border colors keyed by upper-cased designator, e.g. to mark changes between revisions
+  boxColors?: Record<string, string>;
 }
 
+type Corner = 'tl' | 'tr' | 'bl' | 'br';
+
+// An in-progress pointer gesture. Boxes are [ymin, xmin, ymax, xmax] (0-1).
+type Gesture =
+  | { kind: 'draw'; start: number[] }
+  | { kind: 'move'; designator: string; start: number[]; origin: number[] }
+  | { kind: 'resize'; designator: string; corner: Corner; origin: number[] };
+
+// Smallest box that can be drawn, as a fraction of the page
+const MIN_BOX_SIZE = 0.005;
+
+const CORNERS: Corner[] = ['tl', 'tr', 'bl', 'br'];
+
+// Screen position of the page image: screen = offset + scale * image pixel
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+type FitMode = 'page' | 'width';
+
+const MAX_SCALE = 8;
+// Zooming out stops at half of the fit-to-page scale
+const MIN_SCALE_FACTOR = 0.5;
+const FIT_PADDING = 16;
+const WHEEL_ZOOM_SPEED = 0.0015;
+const BUTTON_ZOOM_STEP = 1.25;
+// Fraction of the view a component fills after "zoom to selected"
+const SELECTION_ZOOM_FILL = 0.4;
+// Pointer travel in pixels before a press becomes a pan instead of a click
+const PAN_THRESHOLD = 3;
+const MINIMAP_SIZE = 160;
+
+const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+const boxFromPoints = (a: number[], b: number[]) =>
+  [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[0], b[0]), Math.max(a[1], b[1])];
+
+const isUsableBox = (box: number[]) => box[2] - box[0] >= MIN_BOX_SIZE && box[3] - box[1] >= MIN_BOX_SIZE;
+
 const InteractiveSchematicViewer: React.FC<InteractiveSchematicViewerProps> = ({ 
   imageUrl, 
   components, 
   selectedDesignator,
-  onSelectComponent 
+  onSelectComponent,
+  onUpdateComponents,
+  highlightedDesignators,
+  highlightLabel,
+  onClearHighlight,
+  boxColors
 }) => {
-  const [scale, setScale] = useState(1);
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 });
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [viewportSize, setViewportSize] = useState<{ width: number; height: number } | null>(null);
+  // Set while the view follows the viewport size; cleared by any manual zoom or pan
+  const fitModeRef = useRef<FitMode | null>('page');
   const containerRef = useRef<HTMLDivElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
 
-  // Reset zoom when image changes
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const panRef = useRef<{ x: number; y: number; view: ViewTransform } | null>(null);
+  const pinchRef = useRef<{ distance: number; mid: { x: number; y: number }; view: ViewTransform } | null>(null);
+  const didPanRef = useRef(false);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const gestureRef = useRef<Gesture | null>(null);
+  // Box being drawn or changed; only written back when the gesture ends
+  const [draft, setDraft] = useState<{ designator: string | null; box: number[] } | null>(null);
+  // A freshly drawn box waiting to be assigned to a component
+  const [pendingBox, setPendingBox] = useState<number[] | null>(null);
+  const [pendingDesignator, setPendingDesignator] = useState('');
+
+  // Reset zoom and editing when image changes
+  useEffect(() => {
+    setImageSize(null);
+    fitModeRef.current = 'page';
+    setDraft(null);
+    setPendingBox(null);
+    gestureRef.current = null;
+  }, [imageUrl]);
+
+  // Track the viewport so fitted views follow panel resizes
   useEffect(() => {
-    setScale(1);
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportSize({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
   }, [imageUrl]);
 
-  const handleZoomIn = () => setScale(s => Math.min(s + 0.5, 4));
-  const handleZoomOut = () => setScale(s => Math.max(s - 0.5, 1));
+  const fitScale = (mode: FitMode) => {
+    if (!imageSize || !viewportSize) return 1;
+    const byWidth = (viewportSize.width - FIT_PADDING * 2) / imageSize.width;
+    const byHeight = (viewportSize.height - FIT_PADDING * 2) / imageSize.height;
+    return Math.max(0.01, mode === 'page' ? Math.min(byWidth, byHeight) : byWidth);
+  };
+
+  const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(fitScale('page') * MIN_SCALE_FACTOR, scale));
+
+  const fit = (mode: FitMode) => {
+    if (!imageSize || !viewportSize) return;
+    const scale = fitScale(mode);
+    fitModeRef.current = mode;
+    setView({
+      scale,
+      x: (viewportSize.width - imageSize.width * scale) / 2,
+      y: mode === 'page' ? (viewportSize.height - imageSize.height * scale) / 2 : FIT_PADDING,
+    });
+  };
+
+  useEffect(() => {
+    if (fitModeRef.current) fit(fitModeRef.current);
+  }, [imageSize, viewportSize]);
+
+  // Zooms while keeping the image point under (cx, cy) in place
+  const zoomAt = (factor: number, cx: number, cy: number) => {
+    fitModeRef.current = null;
+    setView(v => {
+      const scale = clampScale(v.scale * factor);
+      const k = scale / v.scale;
+      return { scale, x: cx - (cx - v.x) * k, y: cy - (cy - v.y) * k };
+    });
+  };
+
+  const handleZoomIn = () => viewportSize && zoomAt(BUTTON_ZOOM_STEP, viewportSize.width / 2, viewportSize.height / 2);
+  const handleZoomOut = () => viewportSize && zoomAt(1 / BUTTON_ZOOM_STEP, viewportSize.width / 2, viewportSize.height / 2);
+
+  // Wheel and trackpad pinch (which arrives as ctrl+wheel) zoom toward the cursor.
+  // Registered natively because React's wheel listener is passive.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+      zoomAt(Math.exp(-delta * WHEEL_ZOOM_SPEED), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  });
+
+  const centerOn = (imageX: number, imageY: number, scale = view.scale) => {
+    if (!viewportSize) return;
+    fitModeRef.current = null;
+    setView({ scale, x: viewportSize.width / 2 - imageX * scale, y: viewportSize.height / 2 - imageY * scale });
+  };
+
+  const zoomToSelected = () => {
+    const box = components.find(c => c.designator === selectedDesignator)?.boundingBox;
+    if (!box || !imageSize || !viewportSize) return;
+    const width = Math.max(1, (box[3] - box[1]) * imageSize.width);
+    const height = Math.max(1, (box[2] - box[0]) * imageSize.height);
+    const scale = clampScale(Math.min(viewportSize.width / width, viewportSize.height / height) * SELECTION_ZOOM_FILL);
+    centerOn((box[1] + box[3]) / 2 * imageSize.width, (box[0] + box[2]) / 2 * imageSize.height, scale);
+  };
+
+  // Left-drag pans outside edit mode; in edit mode, where dragging draws
+  // boxes, the middle button or Alt+drag pans. Two touches pinch-zoom.
+  const handleViewportPointerDown = (e: React.PointerEvent) => {
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      const rect = containerRef.current!.getBoundingClientRect();
+      panRef.current = null;
+      pinchRef.current = {
+        distance: Math.hypot(a.x - b.x, a.y - b.y) || 1,
+        mid: { x: (a.x + b.x) / 2 - rect.left, y: (a.y + b.y) / 2 - rect.top },
+        view,
+      };
+      return;
+    }
+    if (e.button !== 0 && e.button !== 1) return;
+    if (isEditing && e.button === 0 && !e.altKey) return;
+    if (e.button === 1) e.preventDefault();
+    didPanRef.current = false;
+    panRef.current = { x: e.clientX, y: e.clientY, view };
+  };
+
+  useEffect(() => {
+    const handleMove = (e: PointerEvent) => {
+      if (!pointersRef.current.has(e.pointerId)) return;
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      const pinch = pinchRef.current;
+      if (pinch && pointersRef.current.size === 2) {
+        const [a, b] = [...pointersRef.current.values()];
+        const rect = containerRef.current!.getBoundingClientRect();
+        const mid = { x: (a.x + b.x) / 2 - rect.left, y: (a.y + b.y) / 2 - rect.top };
+        const scale = clampScale(pinch.view.scale * Math.hypot(a.x - b.x, a.y - b.y) / pinch.distance);
+        // Keep the image point under the starting midpoint under the fingers
+        const imageX = (pinch.mid.x - pinch.view.x) / pinch.view.scale;
+        const imageY = (pinch.mid.y - pinch.view.y) / pinch.view.scale;
+        fitModeRef.current = null;
+        setView({ scale, x: mid.x - imageX * scale, y: mid.y - imageY * scale });
+        return;
+      }
+
+      const pan = panRef.current;
+      if (!pan) return;
+      const dx = e.clientX - pan.x;
+      const dy = e.clientY - pan.y;
+      if (!didPanRef.current && Math.abs(dx) + Math.abs(dy) < PAN_THRESHOLD) return;
+      didPanRef.current = true;
+      fitModeRef.current = null;
+      setView({ ...pan.view, x: pan.view.x + dx, y: pan.view.y + dy });
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      pointersRef.current.delete(e.pointerId);
+      if (pointersRef.current.size < 2) pinchRef.current = null;
+      panRef.current = null;
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  });
+
+  const canEdit = !!onUpdateComponents;
+
+  const setComponentBox = (designator: string, box: number[] | null, replaceFrom?: string) => {
+    if (!onUpdateComponents) return;
+    onUpdateComponents(components.map(c => {
+      if (c.designator === designator) {
+        if (box) return { ...c, boundingBox: box };
+        const { boundingBox: _, ...rest } = c;
+        return rest;
+      }
+      if (replaceFrom && c.designator === replaceFrom) {
+        const { boundingBox: _, ...rest } = c;
+        return rest;
+      }
+      return c;
+    }));
+  };
+
+  // Pointer position relative to the page image; the rect already includes the zoom
+  const toPoint = (e: { clientX: number; clientY: number }): number[] => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return [clamp((e.clientY - rect.top) / rect.height), clamp((e.clientX - rect.left) / rect.width)];
+  };
+
+  const boxForGesture = (gesture: Gesture, point: number[]): number[] => {
+    if (gesture.kind === 'draw') return boxFromPoints(gesture.start, point);
+    if (gesture.kind === 'move') {
+      const [y0, x0, y1, x1] = gesture.origin;
+      const dy = Math.min(1 - y1, Math.max(-y0, point[0] - gesture.start[0]));
+      const dx = Math.min(1 - x1, Math.max(-x0, point[1] - gesture.start[1]));
+      return [y0 + dy, x0 + dx, y1 + dy, x1 + dx];
+    }
+    // Resizing keeps the opposite corner in place
+    const [y0, x0, y1, x1] = gesture.origin;
+    const anchor = [gesture.corner[0] === 't' ? y1 : y0, gesture.corner[1] === 'l' ? x1 : x0];
+    return boxFromPoints(anchor, point);
+  };
+
+  useEffect(() => {
+    if (!isEditing) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const gesture = gestureRef.current;
+      if (!gesture) return;
+      setDraft({ designator: gesture.kind === 'draw' ? null : gesture.designator, box: boxForGesture(gesture, toPoint(e)) });
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      const gesture = gestureRef.current;
+      if (!gesture) return;
+      gestureRef.current = null;
+      setDraft(null);
+
+      const box = boxForGesture(gesture, toPoint(e));
+      if (!isUsableBox(box)) return;
+      if (gesture.kind === 'draw') {
+        setPendingBox(box);
+        const unboxed = components.find(c => !c.boundingBox);
+        setPendingDesignator(selectedDesignator || unboxed?.designator || components[0]?.designator || '');
+      } else {
+        setComponentBox(gesture.designator, box);
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  });
+
+  // Delete removes the selected component's box, not the component
+  useEffect(() => {
+    if (!isEditing || !selectedDesignator) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        setComponentBox(selectedDesignator, null);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const startDraw = (e: React.PointerEvent) => {
+    if (!isEditing || e.button !== 0 || e.altKey) return;
+    e.preventDefault();
+    setPendingBox(null);
+    gestureRef.current = { kind: 'draw', start: toPoint(e) };
+  };
+
+  const startMove = (e: React.PointerEvent, comp: SchematicComponent) => {
+    if (!isEditing || e.button !== 0 || e.altKey || !comp.boundingBox) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (selectedDesignator !== comp.designator) onSelectComponent(comp.designator);
+    gestureRef.current = { kind: 'move', designator: comp.designator, start: toPoint(e), origin: comp.boundingBox };
+  };
+
+  const startResize = (e: React.PointerEvent, comp: SchematicComponent, corner: Corner) => {
+    if (!comp.boundingBox) return;
+    e.preventDefault();
+    e.stopPropagation();
+    gestureRef.current = { kind: 'resize', designator: comp.designator, corner, origin: comp.boundingBox };
+  };
+
+  const assignPendingBox = () => {
+    if (!pendingBox || !pendingDesignator) return;
+    setComponentBox(pendingDesignator, pendingBox);
+    if (selectedDesignator !== pendingDesignator) onSelectComponent(pendingDesignator);
+    setPendingBox(null);
+  };
+
+  // Moves the selected box to another component, which loses any box it had
+  const reassignSelectedBox = (designator: string) => {
+    const source = components.find(c => c.designator === selectedDesignator);
+    if (!source?.boundingBox || designator === source.designator) return;
+    setComponentBox(designator, source.boundingBox, source.designator);
+    onSelectComponent(designator);
+  };
+
+  const toggleEditing = () => {
+    setIsEditing(editing => !editing);
+    setPendingBox(null);
+    setDraft(null);
+    gestureRef.current = null;
+  };
+
+  // Imported analyses do not carry page images
+  if (!imageUrl) {
+    return (
+      <div className="w-full h-full bg-[#050b14] flex flex-col items-center justify-center text-center p-8 text-slate-500">
+        <ImageOff className="w-12 h-12 mb-3 opacity-30" />
+        <p className="text-sm">No page image available.</p>
+        <p className="text-xs mt-1 opacity-70">This page was imported without its schematic image.</p>
+      </div>
+    );
+  }
+
+  const selectedComponent = components.find(c => c.designator === selectedDesignator);
+  const highlighted = highlightedDesignators ? new Set(highlightedDesignators.map(d => d.toUpperCase())) : null;
+  const highlightedBoxes = highlighted
+    ? components.filter(c => c.boundingBox && highlighted.has(c.designator.toUpperCase())).map(c => c.boundingBox!)
+    : [];
+  // Keeps borders, handles and labels a constant size on screen at any zoom
+  const inverseScale = 1 / view.scale;
+  const boxStyle = (box: number[]) => ({
+    top: `${box[0] * 100}%`,
+    left: `${box[1] * 100}%`,
+    height: `${(box[2] - box[0]) * 100}%`,
+    width: `${(box[3] - box[1]) * 100}%`,
+  });
+
+  const fitsViewport = !imageSize || !viewportSize
+    || (imageSize.width * view.scale <= viewportSize.width && imageSize.height * view.scale <= viewportSize.height);
+  const minimapScale = imageSize ? MINIMAP_SIZE / Math.max(imageSize.width, imageSize.height) : 0;
+
+  const handleMinimapPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && !(e.buttons & 1)) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    centerOn((e.clientX - rect.left) / minimapScale, (e.clientY - rect.top) / minimapScale);
+  };
 
   return (
     <div className="relative w-full h-full bg-[#050b14] overflow-hidden flex flex-col group">
       
       {/* Toolbar */}
       <div className="absolute bottom-4 right-4 z-20 flex gap-2">
+        {canEdit && (
+          <button
+            onClick={toggleEditing}
+            className={`p-2 backdrop-blur border rounded-full ${isEditing ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900/80 border-slate-700 hover:bg-slate-800 text-slate-300'}`}
+            title={isEditing ? "Finish Editing Boxes" : "Edit Boxes"}
+          >
+            <SquarePen className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={zoomToSelected}
+          disabled={!selectedComponent?.boundingBox}
+          className="p-2 bg-slate-900/80 backdrop-blur border border-slate-700 rounded-full hover:bg-slate-800 text-slate-300 disabled:opacity-40 disabled:hover:bg-slate-900/80"
+          title="Zoom to Selected"
+        >
+          <Crosshair className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => fit('width')}
+          className="p-2 bg-slate-900/80 backdrop-blur border border-slate-700 rounded-full hover:bg-slate-800 text-slate-300"
+          title="Fit Width"
+        >
+          <MoveHorizontal className="w-4 h-4" />
+        </button>
         <button 
           onClick={handleZoomOut}
           className="p-2 bg-slate-900/80 backdrop-blur border border-slate-700 rounded-full hover:bg-slate-800 text-slate-300"
@@ -39,11 +446,12 @@ const InteractiveSchematicViewer: React.FC<InteractiveSchematicViewerProps> = ({
           <ZoomOut className="w-4 h-4" />
         </button>
         <button 
-          onClick={() => setScale(1)}
-          className="px-3 py-2 bg-slate-900/80 backdrop-blur border border-slate-700 rounded-full hover:bg-slate-800 text-slate-300 text-xs font-mono"
-          title="Reset Zoom"
+          onClick={() => fit('page')}
+          className="flex items-center gap-1.5 px-3 py-2 bg-slate-900/80 backdrop-blur border border-slate-700 rounded-full hover:bg-slate-800 text-slate-300 text-xs font-mono"
+          title="Fit Page"
         >
-          {Math.round(scale * 100)}%
+          <Maximize className="w-3 h-3" />
+          {Math.round(view.scale * 100)}%
         </button>
         <button 
           onClick={handleZoomIn}
@@ -56,67 +464,255 @@ const InteractiveSchematicViewer: React.FC<InteractiveSchematicViewerProps> = ({
 
       <div 
         ref={containerRef}
-        className="flex-1 overflow-auto relative flex items-center justify-center p-4 cursor-grab active:cursor-grabbing custom-scrollbar"
+        onPointerDown={handleViewportPointerDown}
+        className={`flex-1 relative overflow-hidden touch-none ${isEditing ? '' : 'cursor-grab active:cursor-grabbing'}`}
       >
         <div 
-          className="relative transition-transform duration-200 ease-out origin-center"
-          style={{ transform: `scale(${scale})` }}
+          className="absolute top-0 left-0 origin-top-left"
+          style={{
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            visibility: imageSize ? 'visible' : 'hidden',
+          }}
         >
           <img 
             src={imageUrl} 
             alt="Schematic Analysis" 
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
             className="max-w-none shadow-2xl rounded pointer-events-none select-none block"
-            style={{ maxHeight: 'calc(100vh - 200px)' }}
+            style={imageSize ? { width: imageSize.width, height: imageSize.height } : undefined}
+            draggable={false}
           />
 
+          {/* Dim everything except the highlighted components */}
+          {highlighted && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+              <defs>
+                <mask id="highlight-mask">
+                  <rect x="0" y="0" width="1" height="1" fill="white" />
+                  {highlightedBoxes.map((box, i) => (
+                    <rect key={i} x={box[1]} y={box[0]} width={box[3] - box[1]} height={box[2] - box[0]} fill="black" />
+                  ))}
+                </mask>
+              </defs>
+              <rect x="0" y="0" width="1" height="1" fill="rgba(2, 6, 23, 0.6)" mask="url(#highlight-mask)" />
+            </svg>
+          )}
+
           {/* Bounding Boxes Overlay */}
-          <div className="absolute inset-0 w-full h-full">
+          <div
+            ref={overlayRef}
+            onPointerDown={startDraw}
+            className={`absolute inset-0 w-full h-full ${isEditing ? 'cursor-crosshair touch-none' : ''}`}
+          >
             {components.map((comp, idx) => {
-              if (!comp.boundingBox || comp.boundingBox.length < 4) return null;
+              const isDrafted = draft?.designator === comp.designator;
+              const box = isDrafted ? draft!.box : comp.boundingBox;
+              if (!box || box.length < 4) return null;
               
-              const [ymin, xmin, ymax, xmax] = comp.boundingBox;
               const isSelected = selectedDesignator === comp.designator;
+              const isHighlighted = !!highlighted?.has(comp.designator.toUpperCase());
+              const boxColor = isSelected ? undefined : boxColors?.[comp.designator.toUpperCase()];
 
               return (
                 <div
                   key={`${comp.designator}-${idx}`}
                   onClick={(e) => {
                     e.stopPropagation();
-                    onSelectComponent(comp.designator);
+                    if (!isEditing && !didPanRef.current) onSelectComponent(comp.designator);
                   }}
-                  className={`absolute cursor-pointer transition-all duration-200 group/box
+                  onPointerDown={(e) => startMove(e, comp)}
+                  className={`absolute transition-all duration-200 group/box
+                    ${isEditing ? 'cursor-move' : 'cursor-pointer'}
+                    ${isDrafted ? 'transition-none' : ''}
                     ${isSelected 
                       ? 'border-2 border-yellow-400 bg-yellow-400/20 z-10 shadow-[0_0_15px_rgba(250,204,21,0.5)]' 
-                      : 'hover:border-2 hover:border-blue-400 hover:bg-blue-400/10 border border-transparent'
+                      : boxColor
+                        ? 'border-2'
+                      : isHighlighted
+                        ? 'border-2 border-green-400 shadow-[0_0_12px_rgba(74,222,128,0.5)]'
+                      : highlighted
+                        ? 'opacity-40 hover:border hover:border-slate-400 border border-transparent'
+                      : isEditing
+                        ? 'border border-blue-400/60 bg-blue-400/5 hover:bg-blue-400/15'
+                        : 'hover:border-2 hover:border-blue-400 hover:bg-blue-400/10 border border-transparent'
                     }
                   `}
                   style={{
-                    top: `${ymin * 100}%`,
-                    left: `${xmin * 100}%`,
-                    height: `${(ymax - ymin) * 100}%`,
-                    width: `${(xmax - xmin) * 100}%`,
+                    ...boxStyle(box),
+                    borderWidth: `${(isSelected || isHighlighted || boxColor || (!highlighted && !isEditing) ? 2 : 1) * inverseScale}px`,
+                    ...(boxColor && { borderColor: boxColor, backgroundColor: `${boxColor}26` }),
                   }}
                 >
                   {/* Tooltip on hover or selection */}
-                  <div className={`
-                    absolute -top-8 left-1/2 -translate-x-1/2 px-2 py-1 bg-slate-900 text-white text-[10px] rounded whitespace-nowrap pointer-events-none z-20 border border-slate-700
+                  <div
+                    className={`
+                    absolute bottom-full left-1/2 px-2 py-1 bg-slate-900 text-white text-[10px] rounded whitespace-nowrap pointer-events-none z-20 border border-slate-700
                     ${isSelected ? 'opacity-100' : 'opacity-0 group-hover/box:opacity-100'}
-                  `}>
+                  `}
+                    style={{
+                      transform: `translateX(-50%) scale(${inverseScale})`,
+                      transformOrigin: 'bottom center',
+                      marginBottom: `${4 * inverseScale}px`,
+                    }}
+                  >
                     <span className="font-bold text-yellow-400">{comp.designator}</span>: {comp.value}
                   </div>
+
+                  {isEditing && isSelected && CORNERS.map(corner => (
+                    <div
+                      key={corner}
+                      onPointerDown={(e) => startResize(e, comp, corner)}
+                      className={`absolute bg-yellow-400 border-slate-900 rounded-sm
+                        ${corner === 'tl' || corner === 'br' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}
+                      `}
+                      style={{
+                        width: `${10 * inverseScale}px`,
+                        height: `${10 * inverseScale}px`,
+                        borderWidth: `${inverseScale}px`,
+                        [corner[0] === 't' ? 'top' : 'bottom']: `${-6 * inverseScale}px`,
+                        [corner[1] === 'l' ? 'left' : 'right']: `${-6 * inverseScale}px`,
+                      }}
+                    />
+                  ))}
                 </div>
               );
             })}
+
+            {/* Pin ends of the selected component */}
+            {selectedComponent?.pins?.filter(pin => pin.location).map(pin => (
+              <div
+                key={pin.number}
+                className="absolute pointer-events-none z-10"
+                style={{ top: `${pin.location![0] * 100}%`, left: `${pin.location![1] * 100}%` }}
+              >
+                <div
+                  className="absolute rounded-full bg-cyan-400 border-slate-900"
+                  style={{
+                    width: `${8 * inverseScale}px`,
+                    height: `${8 * inverseScale}px`,
+                    left: `${-4 * inverseScale}px`,
+                    top: `${-4 * inverseScale}px`,
+                    borderWidth: `${inverseScale}px`,
+                  }}
+                />
+                <div
+                  className="absolute whitespace-nowrap px-1 rounded bg-slate-950/90 text-cyan-300 text-[9px] font-mono origin-top-left"
+                  style={{ transform: `translate(${6 * inverseScale}px, ${-6 * inverseScale}px) scale(${inverseScale})` }}
+                >
+                  {pin.number}{pin.name ? ` ${pin.name}` : ''}
+                </div>
+              </div>
+            ))}
+
+            {/* Box being drawn or waiting for a designator */}
+            {((draft && draft.designator === null) || pendingBox) && (
+              <div
+                className="absolute border-dashed border-green-400 bg-green-400/10 pointer-events-none"
+                style={{
+                  ...boxStyle(draft && draft.designator === null ? draft.box : pendingBox!),
+                  borderWidth: `${2 * inverseScale}px`,
+                }}
+              />
+            )}
           </div>
         </div>
       </div>
+
+      {/* Minimap, shown while the page does not fit the view */}
+      {imageSize && viewportSize && !fitsViewport && (
+        <div
+          onPointerDown={handleMinimapPointer}
+          onPointerMove={handleMinimapPointer}
+          className="absolute bottom-4 left-4 z-20 rounded border border-slate-700 bg-slate-950/90 overflow-hidden cursor-pointer touch-none shadow-lg"
+          style={{ width: imageSize.width * minimapScale, height: imageSize.height * minimapScale }}
+          title="Drag to move the view"
+        >
+          <img src={imageUrl} alt="" className="w-full h-full opacity-70 pointer-events-none select-none" draggable={false} />
+          <div
+            className="absolute border-2 border-blue-400 bg-blue-400/10 pointer-events-none"
+            style={{
+              left: -view.x / view.scale * minimapScale,
+              top: -view.y / view.scale * minimapScale,
+              width: viewportSize.width / view.scale * minimapScale,
+              height: viewportSize.height / view.scale * minimapScale,
+            }}
+          />
+        </div>
+      )}
       
-      {/* Instructions Overlay */}
-      <div className="absolute top-4 right-4 pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity">
-         <div className="bg-slate-950/80 backdrop-blur px-3 py-1.5 rounded border border-slate-800 text-xs text-slate-400">
-           Click components to inspect
-         </div>
-      </div>
+      {highlightLabel && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 bg-slate-950/90 backdrop-blur pl-3 pr-1 py-1 rounded-full border border-green-500/40 text-xs text-green-300">
+          <span className="font-mono">{highlightLabel}</span>
+          <span className="text-slate-500">{highlightedBoxes.length}/{highlightedDesignators?.length ?? 0} located</span>
+          {onClearHighlight && (
+            <button onClick={onClearHighlight} className="p-1 rounded-full hover:bg-slate-800 text-slate-400 hover:text-white" title="Clear Highlight">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {isEditing ? (
+        <div className="absolute top-4 right-4 z-20 w-64 bg-slate-950/90 backdrop-blur px-3 py-2 rounded border border-slate-800 text-xs text-slate-400 space-y-2">
+          {pendingBox ? (
+            <>
+              <p className="text-slate-300">Assign the new box to:</p>
+              <div className="flex gap-1">
+                <select
+                  value={pendingDesignator}
+                  onChange={(e) => setPendingDesignator(e.target.value)}
+                  className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-blue-500"
+                >
+                  {components.map(c => (
+                    <option key={c.designator} value={c.designator}>
+                      {c.designator}{c.boundingBox ? ' (replace box)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={assignPendingBox} disabled={!pendingDesignator} className="p-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded text-white" title="Assign">
+                  <Check className="w-3 h-3" />
+                </button>
+                <button onClick={() => setPendingBox(null)} className="p-1.5 bg-slate-800 hover:bg-slate-700 rounded text-slate-300" title="Discard">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            </>
+          ) : selectedComponent?.boundingBox ? (
+            <>
+              <p className="text-slate-300">Box of <span className="font-bold text-yellow-400">{selectedComponent.designator}</span></p>
+              <div className="flex gap-1">
+                <select
+                  value={selectedComponent.designator}
+                  onChange={(e) => reassignSelectedBox(e.target.value)}
+                  className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-blue-500"
+                  title="Assign this box to another component"
+                >
+                  {components.map(c => (
+                    <option key={c.designator} value={c.designator}>{c.designator}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setComponentBox(selectedComponent.designator, null)}
+                  className="p-1.5 bg-slate-800 hover:bg-red-900/50 rounded text-slate-300 hover:text-red-300"
+                  title="Delete Box"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </>
+          ) : (
+            <p>Drag on the image to draw a box. Drag a box to move it, its corners to resize, Delete to remove it. Alt+drag to pan.</p>
+          )}
+          <p className="opacity-60">{components.filter(c => !c.boundingBox).length} component(s) without a box</p>
+        </div>
+      ) : (
+        /* Instructions Overlay */
+        <div className="absolute top-4 right-4 pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity">
+           <div className="bg-slate-950/80 backdrop-blur px-3 py-1.5 rounded border border-slate-800 text-xs text-slate-400">
+             Click components to inspect · Scroll to zoom · Drag to pan
+           </div>
+        </div>
+      )}
     </div>
   );
 };
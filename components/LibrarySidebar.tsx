@@ -1,30 +1,103 @@
-import React, { useEffect, useState } from 'react';
-import { ProjectData } from '../types';
-import { getAllProjects, deleteProject } from '../services/storageService';
-import { X, FileText, Calendar, Trash2, FolderOpen, Loader2 } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ProjectData, ProjectLocation, ProjectSummary } from '../types';
+import { getProjectSummaries, getProject, deleteProject, deleteProjects, getSearchDocuments, updateProjectInfo } from '../services/storageService';
+import { SearchDocument, SearchHit, searchDocuments } from '../services/searchService';
+import { buildAnalysisArchive, downloadFile } from '../services/exportService';
+import { X, FileText, Calendar, Trash2, FolderOpen, Loader2, Search, Cpu, Network, Pin, PinOff, Pencil, Check, CheckSquare, Square, Download, Folder, Tag } from 'lucide-react';
 
 interface LibrarySidebarProps {
   isOpen: boolean;
   onClose: () => void;
-  onLoadProject: (project: ProjectData) => void;
+  onLoadProject: (project: ProjectData, location?: ProjectLocation) => void;
+  onProjectInfoChange?: (summary: ProjectSummary) => void; // After a rename, retag, move or (un)pin
   currentProjectId?: string;
 }
 
+type SortKey = 'newest' | 'oldest' | 'name' | 'most-pages' | 'fewest-pages';
+
+const SORT_LABELS: Record<SortKey, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  name: 'Name',
+  'most-pages': 'Most pages',
+  'fewest-pages': 'Fewest pages',
+};
+
+const SORTERS: Record<SortKey, (a: ProjectSummary, b: ProjectSummary) => number> = {
+  newest: (a, b) => b.timestamp - a.timestamp,
+  oldest: (a, b) => a.timestamp - b.timestamp,
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }),
+  'most-pages': (a, b) => b.pageCount - a.pageCount || b.timestamp - a.timestamp,
+  'fewest-pages': (a, b) => a.pageCount - b.pageCount || b.timestamp - a.timestamp,
+};
+
+// Folder filter value for projects that are not in any folder
+const NO_FOLDER = '\u0000';
+
+interface InfoDraft {
+  name: string;
+  folder: string;
+  tags: string; // Comma-separated
+}
+
 const LibrarySidebar: React.FC<LibrarySidebarProps> = ({ 
   isOpen, 
   onClose, 
   onLoadProject,
+  onProjectInfoChange,
   currentProjectId 
 }) => {
-  const [projects, setProjects] = useState<ProjectData[]>([]);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [searchIndex, setSearchIndex] = useState<SearchDocument[]>([]);
+  const [sortKey, setSortKey] = useState<SortKey>('newest');
+  const [folderFilter, setFolderFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InfoDraft>({ name: '', folder: '', tags: '' });
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const hits = useMemo(() => searchDocuments(searchIndex, query), [searchIndex, query]);
+
+  const folders = useMemo(
+    () => [...new Set<string>(projects.map(p => p.folder).filter((f): f is string => !!f))].sort((a, b) => a.localeCompare(b)),
+    [projects]
+  );
+  const tags = useMemo(() => [...new Set<string>(projects.flatMap(p => p.tags))].sort((a, b) => a.localeCompare(b)), [projects]);
+
+  // Pinned projects come first, then the chosen order
+  const visibleProjects = useMemo(() => projects
+    .filter(p => folderFilter === null || (folderFilter === NO_FOLDER ? !p.folder : p.folder === folderFilter))
+    .filter(p => tagFilter.every(tag => p.tags.includes(tag)))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || SORTERS[sortKey](a, b)),
+    [projects, folderFilter, tagFilter, sortKey]
+  );
+
+  // Bulk actions only apply to projects the user can see
+  const selectedProjects = useMemo(
+    () => query.trim() ? [] : visibleProjects.filter(p => selectedIds.includes(p.id)),
+    [visibleProjects, selectedIds, query]
+  );
+
+  // Drop selections hidden by a folder or tag filter
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const visible = prev.filter(id => visibleProjects.some(p => p.id === id));
+      return visible.length === prev.length ? prev : visible;
+    });
+  }, [visibleProjects]);
 
   const fetchProjects = async () => {
     setLoading(true);
     try {
-      const data = await getAllProjects();
-      // Sort desc by timestamp
-      setProjects(data.sort((a, b) => b.timestamp - a.timestamp));
+      const [summaries, documents] = await Promise.all([getProjectSummaries(), getSearchDocuments()]);
+      setProjects(summaries);
+      setSearchIndex(documents);
+      setSelectedIds(prev => prev.filter(id => summaries.some(s => s.id === id)));
     } catch (e) {
       console.error("Failed to load library", e);
     } finally {
@@ -38,14 +111,119 @@ const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
     }
   }, [isOpen]);
 
+  const handleOpen = async (id: string, location?: ProjectLocation) => {
+    if (openingId) return;
+    setOpeningId(id);
+    try {
+      const project = await getProject(id);
+      if (!project) throw new Error("Project not found");
+      onLoadProject(project, location);
+      onClose();
+    } catch (e) {
+      console.error("Failed to open project", e);
+      alert("This document could not be opened.");
+      fetchProjects();
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
   const handleDelete = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    if (confirm('Are you sure you want to delete this analysis?')) {
+    if (!confirm('Are you sure you want to delete this analysis?')) return;
+    try {
       await deleteProject(id);
-      fetchProjects();
+    } catch (e) {
+      console.error("Failed to delete project", e);
+      alert("The document could not be deleted.");
+    }
+    fetchProjects();
+  };
+
+  const applyInfo = async (id: string, info: Parameters<typeof updateProjectInfo>[1]) => {
+    try {
+      const summary = await updateProjectInfo(id, info);
+      if (!summary) return;
+      setProjects(prev => prev.map(p => (p.id === id ? summary : p)));
+      onProjectInfoChange?.(summary);
+      // Names are part of the search index
+      if (info.name !== undefined) setSearchIndex(await getSearchDocuments());
+    } catch (e) {
+      console.error("Failed to update project", e);
+    }
+  };
+
+  const handleTogglePin = (e: React.MouseEvent, project: ProjectSummary) => {
+    e.stopPropagation();
+    applyInfo(project.id, { pinned: !project.pinned });
+  };
+
+  const startEditing = (e: React.MouseEvent, project: ProjectSummary) => {
+    e.stopPropagation();
+    setEditingId(project.id);
+    setDraft({ name: project.name, folder: project.folder || '', tags: project.tags.join(', ') });
+  };
+
+  const saveEditing = async () => {
+    if (!editingId) return;
+    await applyInfo(editingId, { name: draft.name, folder: draft.folder, tags: draft.tags.split(',') });
+    setEditingId(null);
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const handleBulkDelete = async () => {
+    if (selectedProjects.length === 0) return;
+    const names = selectedProjects.map(p => `• ${p.name}`).join('\n');
+    if (!confirm(`Delete ${selectedProjects.length} analyses? This cannot be undone.\n\n${names}`)) return;
+    setIsBusy(true);
+    try {
+      await deleteProjects(selectedProjects.map(p => p.id));
+      stopSelecting();
+    } catch (e) {
+      console.error("Failed to delete projects", e);
+      alert("The selected documents could not be deleted.");
+    } finally {
+      await fetchProjects();
+      setIsBusy(false);
     }
   };
 
+  const handleBulkExport = async () => {
+    setIsBusy(true);
+    try {
+      const loaded = await Promise.all(selectedProjects.map(p => getProject(p.id)));
+      const archive = buildAnalysisArchive(loaded.filter((p): p is ProjectData => !!p));
+      downloadFile(archive, `circuitmind-library-${new Date().toISOString().slice(0, 10)}.zip`, 'application/zip');
+    } catch (e) {
+      console.error("Failed to export projects", e);
+      alert("The selected documents could not be exported.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleTagFilter = (tag: string) =>
+    setTagFilter(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+
+  const hitLabel = ({ entry }: SearchHit) => {
+    if (entry.kind === 'component') return entry.designator;
+    if (entry.kind === 'net') return `Net ${entry.netId}`;
+    return entry.fields.title?.[0] || 'Untitled page';
+  };
+
+  // The matched text that is not already in the label, e.g. a value or an issue
+  const hitDetail = ({ entry, matches }: SearchHit) => {
+    if (entry.kind === 'component') return [entry.fields.value?.[0], entry.fields.type?.[0]].filter(Boolean).join(' · ');
+    return matches.find(m => m.field === 'overview' || m.field === 'issue')?.text;
+  };
+
   const formatDate = (ts: number) => {
     return new Date(ts).toLocaleDateString(undefined, {
       month: 'short',
@@ -55,6 +233,46 @@ const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
     });
   };
 
+  const renderEditor = () => (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        onKeyDown={(e) => e.key === 'Enter' && saveEditing()}
+        placeholder="Name"
+        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+        data-native-undo
+        autoFocus
+      />
+      <input
+        type="text"
+        value={draft.folder}
+        onChange={(e) => setDraft({ ...draft, folder: e.target.value })}
+        placeholder="Folder (optional)"
+        list="library-folders"
+        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+        data-native-undo
+      />
+      <input
+        type="text"
+        value={draft.tags}
+        onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+        placeholder="Tags, comma-separated"
+        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+        data-native-undo
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditingId(null)} className="px-2 py-1 text-xs text-slate-400 hover:text-white">
+          Cancel
+        </button>
+        <button onClick={saveEditing} className="flex items-center gap-1 px-2 py-1 text-xs bg-blue-600 hover:bg-blue-500 rounded text-white">
+          <Check className="w-3 h-3" /> Save
+        </button>
+      </div>
+    </div>
+  );
+
   return (
     <>
       {/* Backdrop */}
@@ -66,7 +284,7 @@ const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
       )}
 
       {/* Sidebar Panel */}
-      <div className={`fixed top-0 left-0 h-full w-80 bg-slate-950 border-r border-slate-800 shadow-2xl z-50 transform transition-transform duration-300 ease-in-out ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
+      <div className={`fixed top-0 left-0 h-full w-80 bg-slate-950 border-r border-slate-800 shadow-2xl z-50 flex flex-col transform transition-transform duration-300 ease-in-out ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
         <div className="flex items-center justify-between p-6 border-b border-slate-800">
           <h2 className="text-lg font-bold text-white flex items-center gap-2">
             <FolderOpen className="text-blue-500 w-5 h-5" />
@@ -80,42 +298,197 @@ const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
           </button>
         </div>
 
-        <div className="p-4 h-[calc(100vh-80px)] overflow-y-auto custom-scrollbar">
+        <div className="px-4 pt-4 space-y-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search, e.g. value:NE555 net:VBAT"
+              title="Search titles, overviews, parts, nets and issues. Narrow a word to one field with value:, type:, net:, ref:, title:, issue: or project:"
+              className="w-full bg-slate-900 border border-slate-800 rounded-lg pl-9 pr-8 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+              data-native-undo
+            />
+            {query && (
+              <button
+                onClick={() => setQuery('')}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-500 hover:text-white"
+                title="Clear Search"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+
+          {!query.trim() && projects.length > 0 && (
+            <>
+              <div className="flex items-center gap-2">
+                <select
+                  value={folderFilter ?? ''}
+                  onChange={(e) => setFolderFilter(e.target.value === '' ? null : e.target.value)}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+                  title="Folder"
+                >
+                  <option value="">All folders</option>
+                  {folders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+                  {folders.length > 0 && <option value={NO_FOLDER}>Not in a folder</option>}
+                </select>
+                <select
+                  value={sortKey}
+                  onChange={(e) => setSortKey(e.target.value as SortKey)}
+                  className="bg-slate-900 border border-slate-800 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+                  title="Sort"
+                >
+                  {(Object.keys(SORT_LABELS) as SortKey[]).map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+                </select>
+                <button
+                  onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+                  className={`p-1.5 rounded transition-colors ${isSelecting ? 'bg-blue-600 text-white' : 'bg-slate-900 border border-slate-800 text-slate-400 hover:text-white'}`}
+                  title={isSelecting ? 'Stop Selecting' : 'Select Several'}
+                >
+                  <CheckSquare className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {tags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTagFilter(tag)}
+                      className={`px-2 py-0.5 rounded-full text-[11px] border transition-colors ${tagFilter.includes(tag) ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <datalist id="library-folders">
+          {folders.map(folder => <option key={folder} value={folder} />)}
+        </datalist>
+
+        <div className="flex-1 p-4 overflow-y-auto custom-scrollbar">
           {loading ? (
             <div className="flex justify-center py-10">
               <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
             </div>
+          ) : query.trim() ? (
+            hits.length === 0 ? (
+              <div className="text-center py-10 text-slate-500 text-sm">No matches in the library.</div>
+            ) : (
+              <div className="space-y-2">
+                {hits.map((hit, i) => {
+                  const { entry } = hit;
+                  const Icon = entry.kind === 'component' ? Cpu : entry.kind === 'net' ? Network : FileText;
+                  const detail = hitDetail(hit);
+                  return (
+                    <button
+                      key={`${hit.projectId}-${i}`}
+                      onClick={() => handleOpen(hit.projectId, { pageId: entry.pageId, designator: entry.designator, netId: entry.netId })}
+                      className="w-full text-left p-3 rounded-lg border bg-slate-900 border-slate-800 hover:bg-slate-800 hover:border-slate-700 transition-colors"
+                    >
+                      <div className="flex items-center gap-2 text-sm text-blue-200">
+                        {openingId === hit.projectId
+                          ? <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+                          : <Icon className="w-4 h-4 flex-shrink-0 text-slate-500" />}
+                        <span className={`truncate ${entry.kind === 'page' ? '' : 'font-mono'}`}>{hitLabel(hit)}</span>
+                      </div>
+                      {detail && <p className="text-xs text-slate-400 mt-1 line-clamp-2">{detail}</p>}
+                      <p className="text-[11px] text-slate-500 mt-1 truncate">
+                        {hit.projectName} · Page {entry.pageNumber}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            )
           ) : projects.length === 0 ? (
             <div className="text-center py-10 text-slate-500">
               <FolderOpen className="w-12 h-12 mx-auto mb-3 opacity-20" />
               <p>No saved documents yet.</p>
               <p className="text-xs mt-2">Analyzed schematics will appear here.</p>
             </div>
+          ) : visibleProjects.length === 0 ? (
+            <div className="text-center py-10 text-slate-500 text-sm">No documents match these filters.</div>
           ) : (
             <div className="space-y-3">
-              {projects.map((proj) => (
+              {visibleProjects.map((proj) => {
+                const isSelected = selectedIds.includes(proj.id);
+                return (
                 <div 
                   key={proj.id}
-                  onClick={() => { onLoadProject(proj); onClose(); }}
+                  onClick={() => {
+                    if (editingId === proj.id) return;
+                    if (isSelecting) toggleSelected(proj.id);
+                    else handleOpen(proj.id);
+                  }}
                   className={`group relative p-4 rounded-lg border cursor-pointer transition-all hover:shadow-md
-                    ${currentProjectId === proj.id 
+                    ${isSelecting && isSelected
+                      ? 'bg-blue-900/30 border-blue-500'
+                      : currentProjectId === proj.id
                       ? 'bg-blue-900/20 border-blue-500/50' 
                       : 'bg-slate-900 border-slate-800 hover:bg-slate-800 hover:border-slate-700'
                     }
                   `}
                 >
+                  {editingId === proj.id ? renderEditor() : (
+                  <>
                   <div className="flex items-start justify-between mb-2">
-                     <div className="flex items-center gap-2 text-blue-200 font-medium truncate pr-4">
-                       <FileText className="w-4 h-4 flex-shrink-0" />
+                     <div className="flex items-center gap-2 text-blue-200 font-medium truncate pr-2">
+                       {isSelecting
+                         ? (isSelected ? <CheckSquare className="w-4 h-4 flex-shrink-0 text-blue-400" /> : <Square className="w-4 h-4 flex-shrink-0 text-slate-500" />)
+                         : openingId === proj.id
+                         ? <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+                         : <FileText className="w-4 h-4 flex-shrink-0" />}
                        <span className="truncate">{proj.name}</span>
+                       {proj.pinned && <Pin className="w-3 h-3 flex-shrink-0 text-amber-400 fill-current" />}
                      </div>
-                     <button 
-                       onClick={(e) => handleDelete(e, proj.id)}
-                       className="text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity p-1"
-                     >
-                       <Trash2 className="w-4 h-4" />
-                     </button>
+                     {!isSelecting && (
+                       <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                         <button
+                           onClick={(e) => handleTogglePin(e, proj)}
+                           className="text-slate-600 hover:text-amber-400 p-1"
+                           title={proj.pinned ? 'Unpin' : 'Pin to Top'}
+                         >
+                           {proj.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                         </button>
+                         <button
+                           onClick={(e) => startEditing(e, proj)}
+                           className="text-slate-600 hover:text-blue-400 p-1"
+                           title="Rename, File or Tag"
+                         >
+                           <Pencil className="w-4 h-4" />
+                         </button>
+                         <button
+                           onClick={(e) => handleDelete(e, proj.id)}
+                           className="text-slate-600 hover:text-red-400 p-1"
+                           title="Delete"
+                         >
+                           <Trash2 className="w-4 h-4" />
+                         </button>
+                       </div>
+                     )}
                   </div>
+
+                  {(proj.folder || proj.tags.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-1 mb-2 text-[11px]">
+                      {proj.folder && (
+                        <span className="flex items-center gap-1 text-slate-400 mr-1">
+                          <Folder className="w-3 h-3" /> {proj.folder}
+                        </span>
+                      )}
+                      {proj.tags.map(tag => (
+                        <span key={tag} className="flex items-center gap-0.5 px-1.5 rounded bg-slate-800 text-slate-400">
+                          <Tag className="w-2.5 h-2.5" />{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                   
                   <div className="flex items-center justify-between text-xs text-slate-500">
                     <span className="flex items-center gap-1">
@@ -123,14 +496,45 @@ const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
                        {formatDate(proj.timestamp)}
                     </span>
                     <span className="bg-slate-800 px-2 py-0.5 rounded-full border border-slate-700">
-                      {proj.pages.length} page{proj.pages.length !== 1 ? 's' : ''}
+                      {proj.pageCount} page{proj.pageCount !== 1 ? 's' : ''}
                     </span>
                   </div>
+                  </>
+                  )}
                 </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
+
+        {isSelecting && (
+          <div className="flex items-center gap-2 p-4 border-t border-slate-800 text-xs">
+            <button
+              onClick={() => setSelectedIds(selectedProjects.length === visibleProjects.length ? [] : visibleProjects.map(p => p.id))}
+              className="text-slate-400 hover:text-white"
+            >
+              {selectedProjects.length === visibleProjects.length ? 'None' : 'All'}
+            </button>
+            <span className="flex-1 text-slate-500">{selectedProjects.length} selected</span>
+            {isBusy && <Loader2 className="w-4 h-4 animate-spin text-blue-500" />}
+            <button
+              onClick={handleBulkExport}
+              disabled={selectedProjects.length === 0 || isBusy}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 disabled:opacity-40"
+              title="Export the selected analyses as a .zip of JSON files"
+            >
+              <Download className="w-3.5 h-3.5" /> Export
+            </button>
+            <button
+              onClick={handleBulkDelete}
+              disabled={selectedProjects.length === 0 || isBusy}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-red-900/40 hover:bg-red-900/60 text-red-300 disabled:opacity-40"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> Delete
+            </button>
+          </div>
+        )}
       </div>
     </>
   );
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { FindingSeverity, NetlistFinding } from '../types';
+import { AlertOctagon, AlertTriangle, Info, ShieldCheck } from 'lucide-react';
+
+interface NetlistChecksProps {
+  findings: NetlistFinding[];
+  selectedDesignator: string | null;
+  onSelectComponent: (designator: string) => void;
+  onSelectNet: (netId: string) => void;
+}
+
+const SEVERITY_STYLES: Record<FindingSeverity, { icon: React.ElementType; label: string; className: string }> = {
+  error: { icon: AlertOctagon, label: 'Errors', className: 'text-red-400 border-red-900/50 bg-red-950/20' },
+  warning: { icon: AlertTriangle, label: 'Warnings', className: 'text-amber-400 border-amber-900/50 bg-amber-950/20' },
+  info: { icon: Info, label: 'Info', className: 'text-sky-400 border-sky-900/50 bg-sky-950/20' },
+};
+
+const NetlistChecks: React.FC<NetlistChecksProps> = ({
+  findings,
+  selectedDesignator,
+  onSelectComponent,
+  onSelectNet
+}) => {
+  const [hidden, setHidden] = useState<FindingSeverity[]>([]);
+
+  if (findings.length === 0) {
+    return (
+      <div className="text-center py-12 text-slate-500">
+        <ShieldCheck className="w-12 h-12 mx-auto mb-3 text-green-500/50" />
+        <p>No integrity problems found.</p>
+        <p className="text-xs mt-2 opacity-60">Every net references known components with well-formed pins.</p>
+      </div>
+    );
+  }
+
+  const toggleSeverity = (severity: FindingSeverity) => {
+    setHidden(prev => prev.includes(severity) ? prev.filter(s => s !== severity) : [...prev, severity]);
+  };
+
+  const visible = findings.filter(f => !hidden.includes(f.severity));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {(Object.keys(SEVERITY_STYLES) as FindingSeverity[]).map(severity => {
+          const style = SEVERITY_STYLES[severity];
+          const count = findings.filter(f => f.severity === severity).length;
+          return (
+            <button
+              key={severity}
+              onClick={() => toggleSeverity(severity)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-medium transition-opacity ${style.className} ${hidden.includes(severity) ? 'opacity-40' : ''}`}
+            >
+              <style.icon className="w-3 h-3" />
+              {style.label}: {count}
+            </button>
+          );
+        })}
+      </div>
+
+      <ul className="space-y-2">
+        {visible.map((finding, idx) => {
+          const style = SEVERITY_STYLES[finding.severity];
+          return (
+            <li key={idx} className={`p-3 rounded-lg border ${style.className}`}>
+              <div className="flex items-start gap-3">
+                <style.icon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-200">{finding.message}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    <span className="text-[10px] font-mono text-slate-500 uppercase">{finding.ruleId}</span>
+                    {finding.designators.map(d => (
+                      <button
+                        key={`d-${d}`}
+                        onClick={() => onSelectComponent(d)}
+                        className={`px-2 py-0.5 text-xs font-mono rounded border transition-colors
+                          ${selectedDesignator === d
+                            ? 'bg-yellow-500/20 border-yellow-500 text-yellow-400'
+                            : 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800'
+                          }
+                        `}
+                      >
+                        {d}
+                      </button>
+                    ))}
+                    {finding.nets.map(n => (
+                      <button
+                        key={`n-${n}`}
+                        onClick={() => onSelectNet(n)}
+                        className="px-2 py-0.5 text-xs font-mono rounded border bg-slate-900 border-blue-900/60 text-blue-400 hover:bg-slate-800 transition-colors"
+                      >
+                        {n}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default NetlistChecks;
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { PageCategory, PageDetection } from '../types';
+import { formatPageRanges, parsePageRanges } from '../services/pdfService';
+import { shouldAnalyzePage } from '../services/geminiService';
+import { TilingMode } from '../services/tilingService';
+import { CheckSquare, Square, Loader2, FileText, Play, ScanSearch } from 'lucide-react';
+
+// Below this the detection is shown as uncertain
+const LOW_CONFIDENCE = 0.6;
+
+const CATEGORY_LABELS: Record<PageCategory, string> = {
+  schematic: 'Schematic',
+  wiring_diagram: 'Wiring',
+  pcb_layout: 'PCB',
+  text: 'Text',
+  other: 'Other',
+  unknown: 'Unknown',
+};
+
+const CATEGORY_COLORS: Record<PageCategory, string> = {
+  schematic: 'bg-emerald-600',
+  wiring_diagram: 'bg-emerald-600',
+  pcb_layout: 'bg-purple-600',
+  text: 'bg-slate-600',
+  other: 'bg-slate-600',
+  unknown: 'bg-amber-600',
+};
+
+interface PagePickerProps {
+  fileName: string;
+  numPages: number;
+  thumbnails: Record<number, string>;
+  selected: number[];
+  onChange: (selected: number[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  // Detection results keyed by page number. When present the picker reviews
+  // the detection before analysis instead of choosing pages to scan.
+  detections?: Record<number, PageDetection>;
+  tilingMode: TilingMode;
+  onTilingModeChange: (mode: TilingMode) => void;
+}
+
+const PagePicker: React.FC<PagePickerProps> = ({
+  fileName,
+  numPages,
+  thumbnails,
+  selected,
+  onChange,
+  onConfirm,
+  onCancel,
+  detections,
+  tilingMode,
+  onTilingModeChange
+}) => {
+  const isReview = !!detections;
+
+  const [rangeInput, setRangeInput] = useState(() => formatPageRanges(selected));
+  const [rangeError, setRangeError] = useState<string | null>(null);
+
+  // Keep the range text in sync when pages are toggled in the grid
+  useEffect(() => {
+    setRangeInput(formatPageRanges(selected));
+    setRangeError(null);
+  }, [selected]);
+
+  const applyRange = () => {
+    try {
+      onChange(parsePageRanges(rangeInput, numPages));
+      setRangeError(null);
+    } catch (e: any) {
+      setRangeError(e.message);
+    }
+  };
+
+  const togglePage = (pageNumber: number) => {
+    onChange(selected.includes(pageNumber)
+      ? selected.filter(p => p !== pageNumber)
+      : [...selected, pageNumber].sort((a, b) => a - b));
+  };
+
+  const renderedCount = Object.keys(thumbnails).length;
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-slate-900 rounded-xl border border-slate-800 overflow-hidden">
+      <div className="bg-slate-950 p-6 border-b border-slate-800 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+              {isReview ? <ScanSearch className="text-blue-500" /> : <FileText className="text-blue-500" />}
+              {isReview ? 'Review Detected Pages' : 'Select Pages'}
+            </h2>
+            <p className="text-slate-400 mt-1 text-sm">
+              {detections
+                ? `Detection suggests ${Object.values(detections).filter(shouldAnalyzePage).length} page(s) of ${fileName}. Include or exclude pages before analysis.`
+                : `${fileName} has ${numPages} page(s). Only the selected pages are scanned for schematics.`}
+              {renderedCount < numPages && (
+                <span className="ml-2 inline-flex items-center gap-1 text-slate-500">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Loading previews {renderedCount}/{numPages}
+                </span>
+              )}
+            </p>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-300 text-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={selected.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-white text-sm font-medium transition-colors"
+            >
+              <Play className="w-4 h-4" />
+              {isReview ? 'Analyze' : 'Scan'} {selected.length} Page(s)
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={rangeInput}
+            onChange={(e) => setRangeInput(e.target.value)}
+            onBlur={applyRange}
+            onKeyDown={(e) => e.key === 'Enter' && applyRange()}
+            placeholder="e.g. 1-20, 45, 80-"
+            className={`flex-1 bg-slate-900 border rounded-lg px-3 py-2 text-sm font-mono text-slate-200 focus:outline-none ${rangeError ? 'border-red-500' : 'border-slate-700 focus:border-blue-500'}`}
+          />
+          <button onClick={() => onChange(Array.from({ length: numPages }, (_, i) => i + 1))} className="px-3 py-2 text-xs text-slate-400 hover:text-white">All</button>
+          <button onClick={() => onChange([])} className="px-3 py-2 text-xs text-slate-400 hover:text-white">None</button>
+          {detections && (
+            <button
+              onClick={() => onChange(Object.keys(detections).map(Number).filter(p => shouldAnalyzePage(detections[p])).sort((a, b) => a - b))}
+              className="px-3 py-2 text-xs text-slate-400 hover:text-white"
+            >
+              Suggested
+            </button>
+          )}
+          <select
+            value={tilingMode}
+            onChange={(e) => onTilingModeChange(e.target.value as TilingMode)}
+            title="Large sheets are split into overlapping tiles so small designators stay readable"
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+          >
+            <option value="auto">Tile large sheets</option>
+            <option value="always">Always tile</option>
+            <option value="off">Never tile</option>
+          </select>
+        </div>
+        {rangeError && <p className="text-xs text-red-400">{rangeError}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+        <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-8 gap-3">
+          {Array.from({ length: numPages }, (_, i) => i + 1).map(pageNumber => {
+            const isSelected = selected.includes(pageNumber);
+            const thumbnail = thumbnails[pageNumber];
+            const detection = detections?.[pageNumber];
+            const isUncertain = !!detection && detection.confidence < LOW_CONFIDENCE;
+            return (
+              <button
+                key={pageNumber}
+                onClick={() => togglePage(pageNumber)}
+                title={detection?.error}
+                className={`relative rounded-lg border-2 overflow-hidden bg-slate-950 aspect-[3/4] transition-all
+                  ${isSelected ? 'border-blue-500' : 'border-slate-800 opacity-50 hover:opacity-80'}
+                  ${isUncertain ? 'ring-2 ring-amber-500/60' : ''}
+                `}
+              >
+                {thumbnail ? (
+                  <img src={thumbnail} alt={`Page ${pageNumber}`} className="w-full h-full object-contain bg-white" loading="lazy" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <Loader2 className="w-4 h-4 text-slate-600 animate-spin" />
+                  </div>
+                )}
+                <div className="absolute top-1 left-1">
+                  {isSelected
+                    ? <CheckSquare className="w-4 h-4 text-blue-400 bg-slate-950 rounded" />
+                    : <Square className="w-4 h-4 text-slate-500 bg-slate-950 rounded" />}
+                </div>
+                {detection && (
+                  <div className={`absolute top-1 right-1 px-1.5 py-0.5 rounded text-[9px] font-medium text-white ${CATEGORY_COLORS[detection.category]}`}>
+                    {CATEGORY_LABELS[detection.category]}
+                    {detection.category !== 'unknown' && ` ${Math.round(detection.confidence * 100)}%`}
+                  </div>
+                )}
+                <div className="absolute bottom-0 inset-x-0 bg-slate-950/80 text-[10px] font-mono text-slate-300 py-0.5">
+                  {pageNumber}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PagePicker;
@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { PageResult } from '../types';
+import { buildProjectNetlist, parsePinRef } from '../services/netlistService';
+import { Globe, Search, GitMerge } from 'lucide-react';
+
+interface ProjectNetlistViewProps {
+  pages: PageResult[];
+  onSelectPin: (pageId: string, designator: string) => void;
+}
+
+const ProjectNetlistView: React.FC<ProjectNetlistViewProps> = ({ pages, onSelectPin }) => {
+  const [filter, setFilter] = useState('');
+  const projectNetlist = useMemo(() => buildProjectNetlist(pages), [pages]);
+
+  const netNames = new Map(projectNetlist.nets.map(n => [n.key, n.name]));
+  const query = filter.toLowerCase();
+  const filteredNets = projectNetlist.nets.filter(net =>
+    net.name.toLowerCase().includes(query) ||
+    net.members.some(m => m.pin.toLowerCase().includes(query))
+  );
+  const crossPageCount = projectNetlist.nets.filter(n => n.pages.length > 1).length;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 rounded-xl border border-slate-800 overflow-hidden shadow-2xl">
+      <div className="bg-slate-950 p-6 border-b border-slate-800">
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+          <Globe className="text-blue-500" />
+          Project Netlist
+        </h2>
+        <p className="text-slate-400 mt-1 text-sm">
+          {projectNetlist.nets.length} nets across {pages.length} page(s), {crossPageCount} spanning more than one page.
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 bg-slate-900/50 custom-scrollbar space-y-4">
+        {projectNetlist.suspectedAliases.length > 0 && (
+          <div className="p-4 bg-amber-950/20 border border-amber-900/50 rounded-lg">
+            <h3 className="text-amber-400 font-semibold mb-3 flex items-center gap-2">
+              <GitMerge className="w-5 h-5" />
+              Possibly the same net
+            </h3>
+            <ul className="space-y-1 text-sm text-amber-200/80">
+              {projectNetlist.suspectedAliases.map((alias, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => setFilter(netNames.get(alias.nets[0]) || '')}
+                    className="font-mono text-amber-300 hover:underline"
+                  >
+                    {alias.nets.map(k => netNames.get(k)).join(' ↔ ')}
+                  </button>
+                  <span className="text-amber-200/60">: {alias.reason}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+          <input
+            type="text"
+            placeholder="Filter by Net ID or Pin..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="w-full bg-slate-800/50 border border-slate-700 rounded-lg pl-10 pr-4 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        <div className="bg-slate-900 border border-slate-800 rounded-lg overflow-hidden">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-950 border-b border-slate-800 text-slate-400 text-xs uppercase tracking-wider">
+                <th className="p-3 font-medium w-1/4">Net ID</th>
+                <th className="p-3 font-medium w-20">Pages</th>
+                <th className="p-3 font-medium">Connected Pins</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {filteredNets.length > 0 ? filteredNets.map(net => (
+                <tr key={net.key} className="hover:bg-slate-800/30 transition-colors">
+                  <td className="p-3 text-sm font-bold text-blue-400 font-mono align-top">{net.name}</td>
+                  <td className="p-3 text-xs text-slate-400 font-mono align-top">{net.pages.join(', ')}</td>
+                  <td className="p-3">
+                    <div className="flex flex-wrap gap-2">
+                      {net.members.map((member, mIdx) => {
+                        const ref = parsePinRef(member.pin);
+                        return (
+                          <button
+                            key={mIdx}
+                            onClick={() => ref && onSelectPin(member.pageId, ref.designator)}
+                            title={member.sourceNet !== net.name ? `Named "${member.sourceNet}" on page ${member.pageNumber}` : undefined}
+                            className="bg-slate-800 border border-slate-700 text-slate-300 text-xs px-2 py-1 rounded font-mono hover:border-blue-500 transition-colors"
+                          >
+                            {member.pin}
+                            <span className="ml-1 text-[10px] text-slate-500">p{member.pageNumber}</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={3} className="p-8 text-center text-slate-500 italic">
+                    {projectNetlist.nets.length > 0 ? "No nets match your filter." : "No netlist data in this project."}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectNetlistView;
@@ -1,5 +1,5 @@
 import React, { useCallback } from 'react';
-import { Upload, FileText, FileImage } from 'lucide-react';
+import { Upload, FileText, FileImage, FileJson, FileArchive } from 'lucide-react';
 
 interface UploadZoneProps {
   onFileSelected: (file: File) => void;
@@ -38,14 +38,14 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelected }) => {
           <Upload className="w-10 h-10 text-blue-400 group-hover:text-blue-300" />
         </div>
         <h3 className="text-xl font-semibold text-slate-200 mb-2">Upload Manual or Schematic</h3>
-        <p className="text-slate-400 mb-6">Drag and drop PDF manuals or image files</p>
+        <p className="text-slate-400 mb-6">Drag and drop PDF manuals, image files, an exported analysis or a project bundle</p>
         <span className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-medium transition-colors shadow-lg shadow-blue-900/20">
           Select File
         </span>
         <input 
           id="file-upload" 
           type="file" 
-          accept="image/*,.pdf" 
+          accept="image/*,.pdf,.json,application/json,.zip,application/zip" 
           className="hidden" 
           onChange={handleFileChange} 
         />
@@ -59,6 +59,14 @@ const UploadZone: React.FC<UploadZoneProps> = ({ onFileSelected }) => {
             <FileImage className="w-4 h-4" />
             <span>PNG, JPG, WEBP</span>
         </div>
+        <div className="flex items-center gap-1">
+            <FileJson className="w-4 h-4" />
+            <span>Analysis JSON</span>
+        </div>
+        <div className="flex items-center gap-1">
+            <FileArchive className="w-4 h-4" />
+            <span>Project Bundle</span>
+        </div>
       </div>
     </div>
   );
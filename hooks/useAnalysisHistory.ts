@@ -0,0 +1,94 @@
+import { useCallback, useRef, useState } from 'react';
+import { SchematicAnalysis } from '../types';
+
+// Edits to the same fields closer together than this are one undo step,
+// so typing a word or dragging a box is undone at once
+const COALESCE_MS = 800;
+const MAX_HISTORY = 100;
+
+interface PageHistory {
+  past: SchematicAnalysis[];
+  future: SchematicAnalysis[];
+  lastFields: string; // Fields changed by the last recorded edit
+  lastTime: number;
+}
+
+export interface AnalysisHistory {
+  record: (pageId: string, previous: SchematicAnalysis, next: SchematicAnalysis) => void;
+  undo: (pageId: string, current: SchematicAnalysis) => SchematicAnalysis | null;
+  redo: (pageId: string, current: SchematicAnalysis) => SchematicAnalysis | null;
+  canUndo: (pageId: string) => boolean;
+  canRedo: (pageId: string) => boolean;
+  clear: (pageId?: string) => void; // One page, or every page
+}
+
+// Edits replace changed fields and keep the others, so comparing references is enough
+const changedFields = (a: SchematicAnalysis, b: SchematicAnalysis) =>
+  (Object.keys({ ...a, ...b }) as (keyof SchematicAnalysis)[]).filter(key => a[key] !== b[key]).sort().join(',');
+
+/**
+ * Undo and redo stacks of analysis edits, one per page. The stacks live only
+ * in memory; the edited analysis itself is saved with the project.
+ */
+export const useAnalysisHistory = (): AnalysisHistory => {
+  const historiesRef = useRef(new Map<string, PageHistory>());
+  // Bumped on every change so buttons reflect canUndo/canRedo
+  const [, setVersion] = useState(0);
+  const changed = () => setVersion(v => v + 1);
+
+  const getHistory = (pageId: string) => {
+    let history = historiesRef.current.get(pageId);
+    if (!history) {
+      history = { past: [], future: [], lastFields: '', lastTime: 0 };
+      historiesRef.current.set(pageId, history);
+    }
+    return history;
+  };
+
+  const record = useCallback((pageId: string, previous: SchematicAnalysis, next: SchematicAnalysis) => {
+    if (previous === next) return;
+    const history = getHistory(pageId);
+    const fields = changedFields(previous, next);
+    const now = Date.now();
+    const isContinuation = history.past.length > 0 && fields === history.lastFields && now - history.lastTime < COALESCE_MS;
+    if (!isContinuation) {
+      history.past.push(previous);
+      if (history.past.length > MAX_HISTORY) history.past.shift();
+    }
+    history.future = [];
+    history.lastFields = fields;
+    history.lastTime = now;
+    changed();
+  }, []);
+
+  const undo = useCallback((pageId: string, current: SchematicAnalysis) => {
+    const history = getHistory(pageId);
+    const previous = history.past.pop();
+    if (!previous) return null;
+    history.future.push(current);
+    history.lastFields = '';
+    changed();
+    return previous;
+  }, []);
+
+  const redo = useCallback((pageId: string, current: SchematicAnalysis) => {
+    const history = getHistory(pageId);
+    const next = history.future.pop();
+    if (!next) return null;
+    history.past.push(current);
+    history.lastFields = '';
+    changed();
+    return next;
+  }, []);
+
+  const canUndo = (pageId: string) => (historiesRef.current.get(pageId)?.past.length ?? 0) > 0;
+  const canRedo = (pageId: string) => (historiesRef.current.get(pageId)?.future.length ?? 0) > 0;
+
+  const clear = useCallback((pageId?: string) => {
+    if (pageId) historiesRef.current.delete(pageId);
+    else historiesRef.current.clear();
+    changed();
+  }, []);
+
+  return { record, undo, redo, canUndo, canRedo, clear };
+};
@@ -0,0 +1,99 @@
+import { Schema } from "@google/genai";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createMockProvider } from "./providers/mockProvider";
+
+// Fast models are used for cheap page screening, pro models for analysis and chat
+export type ModelTier = 'fast' | 'pro';
+
+// Lets fixture-backed providers answer each kind of request differently
+export type AITask = 'detect' | 'analyze' | 'repair' | 'chat';
+
+export interface AIImage {
+  mimeType: string;
+  data: string; // Base64 without the data URL header
+}
+
+export interface AIChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface AIGenerateRequest {
+  task: AITask;
+  tier: ModelTier;
+  prompt: string;
+  images?: AIImage[];
+  history?: AIChatTurn[];
+  systemInstruction?: string;
+  // When set, the provider must answer with JSON matching this schema
+  responseSchema?: Schema;
+  signal?: AbortSignal;
+}
+
+/**
+ * Error raised by providers for failed HTTP calls. `status` lets callers
+ * decide whether a retry makes sense.
+ */
+export class AIProviderError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+export interface AIProvider {
+  name: string;
+  generate(request: AIGenerateRequest): Promise<string>;
+}
+
+export type AIProviderName = 'gemini' | 'openai' | 'mock';
+
+/**
+ * Splits a data URL into the parts providers need. Plain base64 is assumed to be PNG.
+ */
+export const toAIImage = (dataUrl: string): AIImage => {
+  const match = dataUrl.match(/^data:([^;,]+)[^,]*,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: 'image/png', data: dataUrl };
+};
+
+const createProviderFromEnv = (): AIProvider => {
+  const name = (process.env.AI_PROVIDER || 'gemini').toLowerCase() as AIProviderName;
+  const models = {
+    fast: process.env.AI_FAST_MODEL || undefined,
+    pro: process.env.AI_PRO_MODEL || undefined,
+  };
+
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.AI_BASE_URL || 'http://localhost:8000/v1',
+        apiKey: process.env.AI_API_KEY || undefined,
+        models,
+      });
+    case 'gemini':
+      return createGeminiProvider({ apiKey: process.env.API_KEY, models });
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}". Expected gemini, openai or mock.`);
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Returns the configured provider, creating it on first use so that nothing
+ * touches the network or requires an API key at module load.
+ */
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createProviderFromEnv();
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. with a mock in tests.
+ */
+export const setAIProvider = (provider: AIProvider | null) => {
+  activeProvider = provider;
+};
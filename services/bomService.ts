@@ -0,0 +1,75 @@
+import { PageResult } from "../types";
+import { SpreadsheetCell } from "./exportService";
+import { parseComponentValue, valueKey } from "./valueService";
+
+export interface BomLine {
+  type: string;
+  value: string;
+  quantity: number;
+  designators: string[];
+  pages: number[];
+  notes: string[];
+}
+
+export const BOM_HEADER = ['Item', 'Quantity', 'Designators', 'Type', 'Value', 'Pages', 'Notes'];
+
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+export const normalizeBomType = (type: string): string =>
+  (type || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Groups the components of the given pages by normalized type and parsed
+ * value, so "4k7", "4.7K" and "4700 Ω" land on one line while different
+ * ratings or packages stay apart.
+ * When more than one page is included, designators that repeat across pages
+ * are suffixed with their page number so each instance stays distinguishable.
+ */
+export const buildBom = (pages: PageResult[]): BomLine[] => {
+  const designatorPages = new Map<string, Set<number>>();
+  pages.forEach(page => (page.analysis.components || []).forEach(c => {
+    const key = c.designator.trim().toUpperCase();
+    if (!designatorPages.has(key)) designatorPages.set(key, new Set());
+    designatorPages.get(key)!.add(page.pageNumber);
+  }));
+
+  const groups = new Map<string, BomLine>();
+  pages.forEach(page => {
+    (page.analysis.components || []).forEach(comp => {
+      const key = `${normalizeBomType(comp.type)}|${valueKey(parseComponentValue(comp))}`;
+      let line = groups.get(key);
+      if (!line) {
+        line = { type: comp.type, value: comp.value, quantity: 0, designators: [], pages: [], notes: [] };
+        groups.set(key, line);
+      }
+
+      const designator = comp.designator.trim();
+      const repeated = (designatorPages.get(designator.toUpperCase())?.size || 0) > 1;
+      line.quantity++;
+      line.designators.push(repeated ? `${designator} (p${page.pageNumber})` : designator);
+      if (!line.pages.includes(page.pageNumber)) line.pages.push(page.pageNumber);
+      const note = (comp.notes || '').trim();
+      if (note && !line.notes.includes(note)) line.notes.push(note);
+    });
+  });
+
+  return [...groups.values()]
+    .map(line => ({ ...line, designators: line.designators.sort(naturalCompare) }))
+    .sort((a, b) => naturalCompare(a.designators[0] || '', b.designators[0] || ''));
+};
+
+/**
+ * Converts BOM lines into spreadsheet rows, header first.
+ */
+export const bomToRows = (lines: BomLine[]): SpreadsheetCell[][] => [
+  BOM_HEADER,
+  ...lines.map((line, i) => [
+    i + 1,
+    line.quantity,
+    line.designators.join(', '),
+    line.type,
+    line.value,
+    line.pages.join(', '),
+    line.notes.join('; '),
+  ]),
+];
@@ -0,0 +1,203 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { PageResult, ProjectData } from "../types";
+import { EXPORT_TOOL_NAME } from "./exportService";
+import { toAIImage } from "./aiProvider";
+import { importFormatError, withComponentIcons } from "./importService";
+import { isObject, validateGrounding, validateSchematicAnalysis, validateTextLayer } from "./validationService";
+
+const BUNDLE_FORMAT = 'circuitmind-bundle';
+export const BUNDLE_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+interface BundlePageEntry {
+  id: string;
+  pageNumber: number;
+  analysisFile: string; // Page data without the image, see BundlePageData
+  imageFile?: string;
+  imageType?: string; // MIME type of the image file
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  tool: string;
+  project: Omit<ProjectData, 'pages'>;
+  pages: BundlePageEntry[];
+}
+
+type BundlePageData = Omit<PageResult, 'id' | 'pageNumber' | 'image'>;
+
+export const isBundleFile = (file: File) =>
+  ['application/zip', 'application/x-zip-compressed'].includes(file.type) || file.name.toLowerCase().endsWith('.zip');
+
+const decodeImage = (dataUrl: string): { bytes: Uint8Array; mimeType: string } | null => {
+  if (!dataUrl) return null;
+  const { mimeType, data } = toAIImage(dataUrl);
+  try {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { bytes, mimeType };
+  } catch {
+    console.warn("Could not decode a page image; it is left out of the bundle");
+    return null;
+  }
+};
+
+const encodeImage = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  // Chunked so large images do not overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+/**
+ * Packs a project into a self-contained zip: a manifest, one JSON file per
+ * page with its analysis, and each page image as a binary file. Images are
+ * stored as-is since they are already compressed.
+ */
+export const buildProjectBundle = (project: ProjectData): Uint8Array => {
+  const files: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {};
+  const { pages, ...info } = project;
+
+  const entries: BundlePageEntry[] = pages.map((page, i) => {
+    const folder = `pages/${String(i + 1).padStart(3, '0')}`;
+    const { id, pageNumber, image, ...data } = page;
+    const pageData: BundlePageData = data;
+    const entry: BundlePageEntry = { id, pageNumber, analysisFile: `${folder}/analysis.json` };
+    files[entry.analysisFile] = strToU8(JSON.stringify(pageData, null, 2));
+
+    const decoded = decodeImage(image);
+    if (decoded) {
+      entry.imageFile = `${folder}/image.${IMAGE_EXTENSIONS[decoded.mimeType] || 'bin'}`;
+      entry.imageType = decoded.mimeType;
+      files[entry.imageFile] = [decoded.bytes, { level: 0 }];
+    }
+    return entry;
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    tool: EXPORT_TOOL_NAME,
+    project: info,
+    pages: entries,
+  };
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+  return zipSync(files);
+};
+
+const readJson = (files: Record<string, Uint8Array>, path: string): unknown => {
+  const content = files[path];
+  if (!content) throw new Error(`The bundle is missing ${path}.`);
+  try {
+    return JSON.parse(strFromU8(content));
+  } catch {
+    throw new Error(`${path} in the bundle is not valid JSON.`);
+  }
+};
+
+/**
+ * Rebuilds a project from a bundle written by buildProjectBundle. Bundles
+ * from newer format versions are rejected. The project keeps the id it was
+ * exported with, so the caller should check it against the library.
+ */
+export const parseProjectBundle = (data: Uint8Array, fallbackName: string): ProjectData => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error("The file is not a valid .zip archive.");
+  }
+
+  if (!files[MANIFEST_FILE]) {
+    throw new Error("The archive is not a project bundle (it has no manifest.json).");
+  }
+  const manifest = readJson(files, MANIFEST_FILE);
+  if (!isObject(manifest) || manifest.format !== BUNDLE_FORMAT) {
+    throw new Error("The archive is not a project bundle.");
+  }
+
+  const version = Number(manifest.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error("The bundle has an invalid format version.");
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new Error(`The bundle was made by a newer version of ${EXPORT_TOOL_NAME} (format ${version}, this app reads up to ${BUNDLE_VERSION}). Update the app to open it.`);
+  }
+
+  const entries = Array.isArray(manifest.pages) ? manifest.pages.filter(isObject) : [];
+  if (entries.length === 0) {
+    throw new Error("The bundle does not contain any pages.");
+  }
+
+  const errors: string[] = [];
+  const pages: PageResult[] = [];
+  entries.forEach((entry, i) => {
+    const path = `pages[${i}]`;
+    const pageData = readJson(files, String(entry.analysisFile));
+    if (!isObject(pageData)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    const result = validateSchematicAnalysis(pageData.analysis, `${path}.analysis`);
+    errors.push(...result.errors);
+    if (!result.value) return;
+
+    // Optional parts of a page are dropped when unreadable rather than failing the import
+    const readOptional = <T,>(key: string, validate: (raw: unknown, path: string) => { value: T | null; errors: string[] }): T | undefined => {
+      if (pageData[key] === undefined || pageData[key] === null) return undefined;
+      const optional = validate(pageData[key], `${path}.${key}`);
+      if (optional.value && optional.errors.length === 0) return optional.value;
+      console.warn(`Dropping the unreadable ${key} of ${path}`, optional.errors);
+      return undefined;
+    };
+    const originalAnalysis = readOptional('originalAnalysis', validateSchematicAnalysis);
+    const textLayer = readOptional('textLayer', validateTextLayer);
+    const grounding = readOptional('grounding', validateGrounding);
+
+    const imageFile = typeof entry.imageFile === 'string' ? entry.imageFile : undefined;
+    const imageBytes = imageFile ? files[imageFile] : undefined;
+    if (imageFile && !imageBytes) console.warn(`The bundle is missing ${imageFile}`);
+    const imageType = typeof entry.imageType === 'string' && entry.imageType ? entry.imageType : 'image/png';
+    const pageNumber = Number(entry.pageNumber);
+
+    pages.push({
+      id: typeof entry.id === 'string' && entry.id ? entry.id : crypto.randomUUID(),
+      pageNumber: Number.isInteger(pageNumber) && pageNumber > 0 ? pageNumber : i + 1,
+      image: imageBytes ? encodeImage(imageBytes, imageType) : '',
+      analysis: withComponentIcons(result.value),
+      ...(originalAnalysis && { originalAnalysis }),
+      ...(typeof pageData.error === 'string' && { error: pageData.error }),
+      ...(textLayer && { textLayer }),
+      ...(grounding && { grounding }),
+    });
+  });
+
+  if (errors.length > 0) {
+    throw importFormatError("The bundle", errors);
+  }
+
+  const project = isObject(manifest.project) ? manifest.project : {};
+  return {
+    id: typeof project.id === 'string' && project.id ? project.id : crypto.randomUUID(),
+    name: typeof project.name === 'string' && project.name.trim() ? project.name.trim() : fallbackName,
+    timestamp: typeof project.timestamp === 'number' && Number.isFinite(project.timestamp) ? project.timestamp : Date.now(),
+    pages,
+    ...(Array.isArray(project.tags) && { tags: project.tags.filter((t): t is string => typeof t === 'string') }),
+    ...(typeof project.folder === 'string' && project.folder && { folder: project.folder }),
+    ...(project.pinned === true && { pinned: true }),
+  };
+};
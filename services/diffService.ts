@@ -0,0 +1,205 @@
+import { Net, SchematicAnalysis, SchematicComponent } from "../types";
+import { findComponentPin, getNetPinRefs, indexComponents } from "./netlistService";
+import { parseComponentValue, sameQuantity, valueKey } from "./valueService";
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export type ComponentField = 'designator' | 'value' | 'type';
+
+export interface ComponentChange {
+  kind: DiffKind;
+  before?: SchematicComponent; // In the first analysis; missing for added parts
+  after?: SchematicComponent;  // In the second analysis; missing for removed parts
+  fields: ComponentField[];    // What differs, for changed parts
+  matchedBy?: 'designator' | 'value';
+}
+
+export interface NetChange {
+  kind: DiffKind;
+  before?: string; // Net id in the first analysis
+  after?: string;  // Net id in the second analysis
+  addedPins: string[];   // Pins only in the second analysis, as "DESIGNATOR-PIN" with first-analysis designators
+  removedPins: string[]; // Pins only in the first analysis
+}
+
+export interface AnalysisDiff {
+  components: ComponentChange[];
+  nets: NetChange[];
+  unchangedComponents: number;
+  unchangedNets: number;
+}
+
+// Share of pins two differently named nets must have in common to count as the same net
+const NET_MATCH_THRESHOLD = 0.5;
+
+const looseType = (type: string) => (type || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const compareDesignators = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * How alike two unmatched parts are: 2 for the same value and ratings, 1 for
+ * the same quantity, 0 for no match. Parts of different types never match.
+ */
+const valueSimilarity = (a: SchematicComponent, b: SchematicComponent): number => {
+  if (looseType(a.type) !== looseType(b.type) && (a.icon || 'generic') !== (b.icon || 'generic')) return 0;
+  const parsedA = parseComponentValue(a);
+  const parsedB = parseComponentValue(b);
+  if (valueKey(parsedA) === valueKey(parsedB)) return 2;
+  return sameQuantity(parsedA, parsedB) ? 1 : 0;
+};
+
+/**
+ * Pins of every net as "DESIGNATOR-PIN" keys. Designators are renamed through
+ * `rename` so renumbered parts compare equal, and pin names are resolved to
+ * numbers where the component lists its pins.
+ */
+const netPinKeys = (analysis: SchematicAnalysis, rename: Map<string, string>): Map<Net, Set<string>> => {
+  const index = indexComponents(analysis.components || []);
+  return new Map((analysis.netlist || []).map(net => {
+    const keys = new Set<string>();
+    getNetPinRefs(net).forEach(ref => {
+      const component = index.get(ref.designator);
+      const pin = (component && findComponentPin(component, ref.pin)?.number) || ref.pin;
+      keys.add(`${rename.get(ref.designator) || ref.designator}-${pin.trim().toUpperCase()}`);
+    });
+    return [net, keys];
+  }));
+};
+
+const overlap = (a: Set<string>, b: Set<string>) => {
+  const shared = [...a].filter(key => b.has(key)).length;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+};
+
+/**
+ * Compares two analyses, typically two revisions of the same board.
+ * Components are paired by designator first; the rest are paired by value
+ * similarity, which catches renumbered parts. Nets are paired by name, then
+ * by shared pins, and reported when their pin membership differs.
+ */
+export const diffAnalyses = (before: SchematicAnalysis, after: SchematicAnalysis): AnalysisDiff => {
+  const indexBefore = indexComponents(before.components || []);
+  const indexAfter = indexComponents(after.components || []);
+  const components: ComponentChange[] = [];
+  let unchangedComponents = 0;
+  // Designator in `after` -> designator in `before`, for parts matched by value
+  const renames = new Map<string, string>();
+
+  const unmatchedBefore: string[] = [];
+  indexBefore.forEach((component, key) => {
+    const match = indexAfter.get(key);
+    if (!match) {
+      unmatchedBefore.push(key);
+      return;
+    }
+    const fields: ComponentField[] = [];
+    if (valueKey(parseComponentValue(component)) !== valueKey(parseComponentValue(match))) fields.push('value');
+    if (looseType(component.type) !== looseType(match.type)) fields.push('type');
+    if (fields.length === 0) unchangedComponents++;
+    else components.push({ kind: 'changed', before: component, after: match, fields, matchedBy: 'designator' });
+  });
+  const unmatchedAfter = new Set([...indexAfter.keys()].filter(key => !indexBefore.has(key)));
+
+  // Best value matches first; ties go to the lowest designators so results are stable
+  const candidates = unmatchedBefore.flatMap(b => [...unmatchedAfter].map(a => ({
+    before: b,
+    after: a,
+    score: valueSimilarity(indexBefore.get(b)!, indexAfter.get(a)!),
+  }))).filter(c => c.score > 0)
+    .sort((x, y) => y.score - x.score || compareDesignators(x.before, y.before) || compareDesignators(x.after, y.after));
+
+  const pairedBefore = new Set<string>();
+  candidates.forEach(({ before: b, after: a, score }) => {
+    if (pairedBefore.has(b) || !unmatchedAfter.has(a)) return;
+    pairedBefore.add(b);
+    unmatchedAfter.delete(a);
+    renames.set(a, b);
+    components.push({
+      kind: 'changed',
+      before: indexBefore.get(b),
+      after: indexAfter.get(a),
+      fields: score === 2 ? ['designator'] : ['designator', 'value'],
+      matchedBy: 'value',
+    });
+  });
+
+  unmatchedBefore.filter(key => !pairedBefore.has(key))
+    .forEach(key => components.push({ kind: 'removed', before: indexBefore.get(key), fields: [] }));
+  unmatchedAfter.forEach(key => components.push({ kind: 'added', after: indexAfter.get(key), fields: [] }));
+
+  const pinsBefore = netPinKeys(before, new Map());
+  const pinsAfter = netPinKeys(after, renames);
+  const nets: NetChange[] = [];
+  let unchangedNets = 0;
+
+  const netsAfterById = new Map<string, Net>();
+  pinsAfter.forEach((_, net) => {
+    const id = net.id.trim().toUpperCase();
+    if (!netsAfterById.has(id)) netsAfterById.set(id, net);
+  });
+  const unpairedAfter = new Set(pinsAfter.keys());
+  const pairs: [Net, Net][] = [];
+  const unpairedBefore: Net[] = [];
+
+  pinsBefore.forEach((_, net) => {
+    const match = netsAfterById.get(net.id.trim().toUpperCase());
+    if (match && unpairedAfter.has(match)) {
+      unpairedAfter.delete(match);
+      pairs.push([net, match]);
+    } else {
+      unpairedBefore.push(net);
+    }
+  });
+
+  // Renamed nets (auto-numbered ones especially) are found by their pins
+  unpairedBefore.forEach(net => {
+    let best: Net | null = null;
+    let bestOverlap = NET_MATCH_THRESHOLD;
+    for (const candidate of unpairedAfter) {
+      const score = overlap(pinsBefore.get(net)!, pinsAfter.get(candidate)!);
+      if (score >= bestOverlap) {
+        best = candidate;
+        bestOverlap = score;
+      }
+    }
+    if (best) {
+      unpairedAfter.delete(best);
+      pairs.push([net, best]);
+    } else {
+      nets.push({ kind: 'removed', before: net.id, addedPins: [], removedPins: [...pinsBefore.get(net)!].sort(compareDesignators) });
+    }
+  });
+
+  pairs.forEach(([netBefore, netAfter]) => {
+    const a = pinsBefore.get(netBefore)!;
+    const b = pinsAfter.get(netAfter)!;
+    const addedPins = [...b].filter(key => !a.has(key)).sort(compareDesignators);
+    const removedPins = [...a].filter(key => !b.has(key)).sort(compareDesignators);
+    if (addedPins.length === 0 && removedPins.length === 0) unchangedNets++;
+    else nets.push({ kind: 'changed', before: netBefore.id, after: netAfter.id, addedPins, removedPins });
+  });
+  unpairedAfter.forEach(net => {
+    nets.push({ kind: 'added', after: net.id, addedPins: [...pinsAfter.get(net)!].sort(compareDesignators), removedPins: [] });
+  });
+
+  const kindOrder: Record<DiffKind, number> = { removed: 0, added: 1, changed: 2 };
+  const componentName = (c: ComponentChange) => (c.before || c.after)!.designator;
+  components.sort((x, y) => kindOrder[x.kind] - kindOrder[y.kind] || compareDesignators(componentName(x), componentName(y)));
+  nets.sort((x, y) => kindOrder[x.kind] - kindOrder[y.kind] || compareDesignators(x.before || x.after!, y.before || y.after!));
+
+  return { components, nets, unchangedComponents, unchangedNets };
+};
+
+/**
+ * Upper-cased designators to color on each side of a comparison.
+ */
+export const diffHighlights = (diff: AnalysisDiff): { before: Record<string, DiffKind>; after: Record<string, DiffKind> } => {
+  const before: Record<string, DiffKind> = {};
+  const after: Record<string, DiffKind> = {};
+  diff.components.forEach(change => {
+    if (change.before) before[change.before.designator.toUpperCase()] = change.kind;
+    if (change.after) after[change.after.designator.toUpperCase()] = change.kind;
+  });
+  return { before, after };
+};
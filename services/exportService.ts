@@ -0,0 +1,161 @@
+import { strToU8, zipSync } from "fflate";
+import { PageResult, ProjectData } from "../types";
+
+export const EXPORT_TOOL_NAME = "CircuitMind";
+
+/**
+ * Turns a project name into a safe, lower-case file name stem.
+ */
+export const toFileStem = (name: string): string => {
+  const stem = name.trim().replace(/\s+/g, '-').replace(/[^A-Za-z0-9._-]/g, '').toLowerCase();
+  return stem || 'schematic';
+};
+
+/**
+ * Triggers a browser download for the given content.
+ */
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Revoking right after the click can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Builds the JSON analysis export. Page images are not included.
+ */
+export const buildAnalysisExport = (projectName: string, pages: PageResult[]) => ({
+  metadata: {
+    exportedAt: new Date().toISOString(),
+    tool: EXPORT_TOOL_NAME,
+    projectName
+  },
+  pages: pages.map(p => ({
+    pageNumber: p.pageNumber,
+    analysis: p.analysis
+  }))
+});
+
+/**
+ * Zips the JSON analysis export of several projects, one file per project.
+ * Each file can be imported on its own.
+ */
+export const buildAnalysisArchive = (projects: ProjectData[]): Uint8Array => {
+  const files: Record<string, Uint8Array> = {};
+  projects.forEach(project => {
+    const stem = toFileStem(project.name);
+    let fileName = `${stem}-analysis.json`;
+    for (let n = 2; files[fileName]; n++) fileName = `${stem}-${n}-analysis.json`;
+    files[fileName] = strToU8(JSON.stringify(buildAnalysisExport(project.name, project.pages), null, 2));
+  });
+  return zipSync(files);
+};
+
+export type SpreadsheetCell = string | number;
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetCell[][];
+}
+
+const csvCell = (cell: SpreadsheetCell): string => {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows as RFC 4180 CSV.
+ */
+export const buildCsv = (rows: SpreadsheetCell[][]): string =>
+  rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const xmlEscape = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const sheetXml = (rows: SpreadsheetCell[][]): string => {
+  const rowXml = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      return typeof cell === 'number'
+        ? `<c r="${ref}"><v>${cell}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(cell)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowXml.join('')}</sheetData></worksheet>`;
+};
+
+// Excel limits sheet names to 31 characters and forbids a few symbols
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const sheetName = (name: string, index: number): string =>
+  name.replace(/[\[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || `Sheet${index + 1}`;
+
+// Names that collide after truncation (Excel ignores case) get a " (2)", " (3)", ... suffix
+const uniqueSheetNames = (names: string[]): string[] => {
+  const taken = new Set<string>();
+  return names.map(name => {
+    let unique = name;
+    for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      unique = `${name.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length).trimEnd()}${suffix}`;
+    }
+    taken.add(unique.toLowerCase());
+    return unique;
+  });
+};
+
+/**
+ * Builds a minimal Office Open XML workbook (.xlsx) using inline strings.
+ */
+export const buildXlsx = (sheets: SpreadsheetSheet[]): Uint8Array => {
+  const safeNames = uniqueSheetNames(sheets.map((sheet, i) => sheetName(sheet.name, i)));
+  const sheetEntries = sheets.map((sheet, i) => ({ ...sheet, id: i + 1, safeName: safeNames[i] }));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheetEntries.map(s => `<Override PartName="/xl/worksheets/sheet${s.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheetEntries.map(s => `<sheet name="${xmlEscape(s.safeName)}" sheetId="${s.id}" r:id="rId${s.id}"/>`).join('')}</sheets></workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetEntries.map(s => `<Relationship Id="rId${s.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${s.id}.xml"/>`).join('')}</Relationships>`;
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(contentTypes),
+    '_rels/.rels': strToU8(rootRels),
+    'xl/workbook.xml': strToU8(workbook),
+    'xl/_rels/workbook.xml.rels': strToU8(workbookRels),
+  };
+  sheetEntries.forEach(s => {
+    files[`xl/worksheets/sheet${s.id}.xml`] = strToU8(sheetXml(s.rows));
+  });
+
+  return zipSync(files);
+};
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
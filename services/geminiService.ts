@@ -1,7 +1,9 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { SchematicAnalysis } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type, Schema } from "@google/genai";
+import { PageCategory, PageDetection, SchematicAnalysis } from "../types";
+import { AIImage, getAIProvider, toAIImage } from "./aiProvider";
+import { runJobs } from "./jobRunner";
+import { mergeTileAnalyses, TileAnalysis, TileRegion } from "./tilingService";
+import { isMinorValidationError, normalizeAnalysis, PIN_ELECTRICAL_TYPES, validateSchematicAnalysis } from "./validationService";
 
 // Define the schema for the structured response
 const analysisSchema: Schema = {
@@ -24,6 +26,24 @@ const analysisSchema: Schema = {
             items: { type: Type.NUMBER },
             description: "The bounding box of the visual symbol for this component in [ymin, xmin, ymax, xmax] format, normalized to 0-1 coordinates.",
           },
+          pins: {
+            type: Type.ARRAY,
+            description: "Pins drawn on the symbol. Required for ICs, connectors and transistors.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                number: { type: Type.STRING, description: "Pin number as printed, e.g. 3 or A1. Use B/C/E, G/D/S or A/K when the symbol has no numbers." },
+                name: { type: Type.STRING, description: "Pin name or function, e.g. VCC, OUT, IN-, TRIG" },
+                electricalType: { type: Type.STRING, enum: PIN_ELECTRICAL_TYPES, description: "Electrical role of the pin" },
+                location: {
+                  type: Type.ARRAY,
+                  items: { type: Type.NUMBER },
+                  description: "Where the pin's wire attaches, as [y, x] normalized to 0-1 coordinates.",
+                },
+              },
+              required: ["number"],
+            },
+          },
         },
         required: ["designator", "type"],
       },
@@ -56,7 +76,19 @@ const analysisSchema: Schema = {
             type: Type.ARRAY, 
             items: { type: Type.STRING },
             description: "List of component pins connected to this net (e.g. ['R1-2', 'U1-3'])" 
-          }
+          },
+          pins: {
+            type: Type.ARRAY,
+            description: "The same pins as designator and pin number pairs",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                designator: { type: Type.STRING, description: "e.g. U1" },
+                pin: { type: Type.STRING, description: "Pin number as listed in the component's pins, e.g. 3" },
+              },
+              required: ["designator", "pin"],
+            },
+          },
         },
         required: ["id", "connectedPins"]
       }
@@ -70,7 +102,7 @@ const analysisSchema: Schema = {
   required: ["title", "overview", "components", "functionalBlocks", "connectivityLogic", "netlist"],
 };
 
-const mapTypeToIcon = (type: string): string => {
+export const mapTypeToIcon = (type: string): string => {
   const t = type.toLowerCase();
   if (t.includes('resistor')) return 'resistor';
   if (t.includes('cap')) return 'capacitor';
@@ -85,135 +117,288 @@ const mapTypeToIcon = (type: string): string => {
   return 'generic';
 };
 
+const PAGE_CATEGORIES: PageCategory[] = ['schematic', 'wiring_diagram', 'pcb_layout', 'text', 'other'];
+
+const detectionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    pages: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: "Position of the image in the request, starting at 0" },
+          category: { type: Type.STRING, enum: PAGE_CATEGORIES, description: "What the page mainly shows" },
+          confidence: { type: Type.NUMBER, description: "Confidence in the category, 0-1" },
+        },
+        required: ["index", "category", "confidence"],
+      },
+    },
+  },
+  required: ["pages"],
+};
+
+// Pages per detection request, to stay below payload limits on huge manuals
+const DETECTION_BATCH_SIZE = 5;
+
+/**
+ * Whether a page should be analyzed by default. Pages that could not be
+ * classified are included so that a failed call never hides a schematic.
+ */
+export const shouldAnalyzePage = (detection: PageDetection): boolean =>
+  detection.category === 'schematic' || detection.category === 'wiring_diagram' || detection.category === 'unknown';
+
+type DetectionEntry = Pick<PageDetection, 'index' | 'category' | 'confidence'>;
+
 /**
- * Rapidly scans a list of images to determine which ones are likely schematics.
- * Uses Gemini Flash for speed and cost efficiency.
+ * Reads the `pages` of a detection response, skipping entries without an index.
  */
-export const detectSchematicPages = async (images: string[]): Promise<number[]> => {
+const readDetectionEntries = (raw: unknown): DetectionEntry[] => {
+  const pages = typeof raw === 'object' && raw !== null ? (raw as { pages?: unknown }).pages : undefined;
+  if (!Array.isArray(pages)) return [];
+  return pages.flatMap((entry: unknown): DetectionEntry[] => {
+    if (typeof entry !== 'object' || entry === null) return [];
+    const { index, category, confidence } = entry as Record<string, unknown>;
+    if (typeof index !== 'number' || !Number.isInteger(index)) return [];
+    const score = Number(confidence);
+    return [{
+      index,
+      category: PAGE_CATEGORIES.includes(category as PageCategory) ? category as PageCategory : 'other',
+      confidence: Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : 0,
+    }];
+  });
+};
+
+/**
+ * Rapidly classifies a list of images by page category with a confidence.
+ * Uses the provider's fast model for speed and cost efficiency. Returns one
+ * entry per image, in order; batches that keep failing after retries are
+ * reported as 'unknown' with the error instead of being dropped.
+ */
+export const detectSchematicPages = async (images: string[], signal?: AbortSignal): Promise<PageDetection[]> => {
   // If only 1 image, assume it's the one we want.
-  if (images.length === 1) return [0];
-
-  const validIndices: number[] = [];
-  
-  // We process in batches of 5 to avoid payload limits if the manual is huge
-  const BATCH_SIZE = 5;
-  
-  for (let i = 0; i < images.length; i += BATCH_SIZE) {
-    const batch = images.slice(i, i + BATCH_SIZE);
-    
-    // Construct parts: Images + Prompt
-    const parts: any[] = batch.map(img => ({
-      inlineData: { mimeType: "image/jpeg", data: img.split(',')[1] }
-    }));
+  if (images.length === 1) return [{ index: 0, category: 'schematic', confidence: 1 }];
 
-    parts.push({
-      text: `Look at these ${batch.length} images (ordered 0 to ${batch.length - 1}). 
-      Identify which images contain visual technical content like:
-      - Electronic Schematics
-      - Wiring Diagrams
-      - Circuit Blueprints
-      - PCB Layouts
-      
-      Ignore pages that are primarily text, table of contents, legal warnings, or cover pages.
-      
-      Return JSON: { "indices": [0, 2] }`
+  const batchStarts: number[] = [];
+  for (let i = 0; i < images.length; i += DETECTION_BATCH_SIZE) batchStarts.push(i);
+
+  const outcomes = await runJobs(batchStarts, async (start, jobSignal) => {
+    const batch = images.slice(start, start + DETECTION_BATCH_SIZE);
+    const text = await getAIProvider().generate({
+      task: 'detect',
+      tier: 'fast',
+      images: batch.map(toAIImage),
+      signal: jobSignal,
+      prompt: `Look at these ${batch.length} images (ordered 0 to ${batch.length - 1}).
+      Classify each image by what it mainly shows:
+      - "schematic": electronic schematics or circuit blueprints
+      - "wiring_diagram": wiring or harness diagrams
+      - "pcb_layout": PCB layouts, silkscreen or assembly drawings
+      - "text": pages that are primarily text, tables, table of contents, legal warnings or covers
+      - "other": anything else, such as photos or mechanical drawings
+
+      Give a confidence between 0 and 1 for each classification.
+
+      Return JSON: { "pages": [{ "index": 0, "category": "schematic", "confidence": 0.9 }] }`,
+      responseSchema: detectionSchema,
     });
+    return readDetectionEntries(JSON.parse(text));
+  }, { concurrency: 2, maxRetries: 2, signal });
 
-    try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: { parts },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-             type: Type.OBJECT,
-             properties: {
-                indices: { type: Type.ARRAY, items: { type: Type.INTEGER } }
-             }
-          }
-        }
-      });
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+  const detections: PageDetection[] = [];
+  batchStarts.forEach((start, b) => {
+    const outcome = outcomes[b];
+    const count = Math.min(DETECTION_BATCH_SIZE, images.length - start);
+    const entries = outcome.status === 'fulfilled' ? outcome.value : [];
+    if (outcome.status === 'rejected') {
+      console.warn(`Batch detection failed for indices ${start}-${start + count - 1}`, outcome.error);
+    }
 
-      if (response.text) {
-        const result = JSON.parse(response.text);
-        // Map batch-relative indices back to global indices
-        const globalIndices = result.indices.map((idx: number) => idx + i);
-        validIndices.push(...globalIndices);
+    for (let i = 0; i < count; i++) {
+      const entry = entries.find(e => e.index === i);
+      if (!entry) {
+        detections.push({
+          index: start + i,
+          category: 'unknown',
+          confidence: 0,
+          error: outcome.status === 'rejected' ? outcome.error.message || "Detection failed" : "The model did not classify this page",
+        });
+        continue;
       }
-    } catch (e) {
-      console.warn(`Batch detection failed for indices ${i}-${i+BATCH_SIZE}`, e);
-      // Fallback: If detection fails, maybe skip or include? Let's skip to be safe.
+      detections.push({ ...entry, index: start + i });
     }
-  }
+  });
 
-  return validIndices;
+  return detections;
 };
 
-export const analyzeSchematicImage = async (base64Image: string): Promise<SchematicAnalysis> => {
-  try {
-    // Remove header if present (e.g., "data:image/png;base64,")
-    const cleanBase64 = base64Image.split(',')[1] || base64Image;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/png", // generic handling usually works or detect mime
-              data: cleanBase64,
-            },
-          },
-          {
-            text: `Analyze this electronic schematic or wiring diagram. 
+const ANALYSIS_PROMPT = `Analyze this electronic schematic or wiring diagram. 
             
             Your goal is to structure the visual information into a machine-understandable format and a human-readable explanation.
             
             1. Identify all components, their values, and designators. IMPORTANT: Provide the bounding box [ymin, xmin, ymax, xmax] (0-1) for every component symbol detected.
-            2. Break down the circuit into functional blocks (e.g., "Input Stage", "Filter", "Output Driver").
-            3. Explain the connectivity logic: how does the signal flow? What connects to what?
-            4. Extract a structured netlist mapping Net IDs (e.g. "VCC", "N1") to a list of connected pins (e.g. "U1-1", "R1-2").
-            5. Identify potential issues or notable design features.
+            2. For every IC, connector and transistor, list its pins with number, name, electrical type and the [y, x] (0-1) point where the wire attaches. Two-terminal passives may omit pins.
+            3. Break down the circuit into functional blocks (e.g., "Input Stage", "Filter", "Output Driver").
+            4. Explain the connectivity logic: how does the signal flow? What connects to what?
+            5. Extract a structured netlist mapping Net IDs (e.g. "VCC", "N1") to a list of connected pins (e.g. "U1-1", "R1-2"), using pin numbers rather than names.
+            6. Identify potential issues or notable design features.
             
-            Provide the output strictly as JSON matching the requested schema.`,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        systemInstruction: "You are an expert Electronics Engineer and AI Data Structuring Specialist. You are capable of reading complex schematics, wiring diagrams, and blueprints. You extract high-fidelity technical data including precise spatial locations of components.",
-      },
+            Provide the output strictly as JSON matching the requested schema.`;
+
+const ANALYSIS_SYSTEM_INSTRUCTION = "You are an expert Electronics Engineer and AI Data Structuring Specialist. You are capable of reading complex schematics, wiring diagrams, and blueprints. You extract high-fidelity technical data including precise spatial locations of components.";
+
+// Only the first problems are sent back so the repair prompt stays focused
+const MAX_REPAIR_PROBLEMS = 20;
+
+interface ParsedAnalysis {
+  analysis: SchematicAnalysis | null;
+  problems: string[]; // Validation errors serious enough to ask the model again
+}
+
+/**
+ * Parses and validates raw model output without throwing.
+ */
+const readAnalysisResponse = (text: string): ParsedAnalysis => {
+  let raw: unknown;
+  try {
+    // Some OpenAI-compatible servers wrap JSON in a markdown fence
+    raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch (e) {
+    return { analysis: null, problems: [`The response is not valid JSON (${(e as Error).message})`] };
+  }
+  const result = validateSchematicAnalysis(raw);
+  return { analysis: result.value, problems: result.errors.filter(e => !isMinorValidationError(e)) };
+};
+
+/**
+ * Asks the model to correct only the listed problems in its previous answer.
+ */
+const requestAnalysisRepair = (image: AIImage, previous: string, problems: string[], signal?: AbortSignal) =>
+  getAIProvider().generate({
+    task: 'repair',
+    tier: 'pro',
+    images: [image],
+    signal,
+    prompt: `Your previous analysis of this schematic could not be used because of these problems:
+${problems.slice(0, MAX_REPAIR_PROBLEMS).map(p => `- ${p}`).join('\n')}
+
+Previous answer:
+${previous}
+
+Fix only the listed problems, looking at the image again where a value is missing. Keep every other part of the answer unchanged and return the complete corrected JSON matching the requested schema.`,
+    responseSchema: analysisSchema,
+    systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
+  });
+
+export const analyzeSchematicImage = async (base64Image: string, signal?: AbortSignal, promptNote?: string): Promise<SchematicAnalysis> => {
+  try {
+    const image = toAIImage(base64Image);
+    const text = await getAIProvider().generate({
+      task: 'analyze',
+      tier: 'pro',
+      images: [image],
+      signal,
+      prompt: promptNote ? `${ANALYSIS_PROMPT}\n\n${promptNote}` : ANALYSIS_PROMPT,
+      responseSchema: analysisSchema,
+      systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
     });
 
-    if (response.text) {
-      const analysis = JSON.parse(response.text) as SchematicAnalysis;
-      
-      // Post-process to map icons
-      analysis.components = analysis.components.map(c => ({
-        ...c,
-        icon: mapTypeToIcon(c.type)
-      }));
-      
-      // Ensure netlist exists (backwards compatibility if logic changes or model fails partial)
-      if (!analysis.netlist) analysis.netlist = [];
-
-      return analysis;
-    } else {
-      throw new Error("No response text generated");
+    let parsed = readAnalysisResponse(text);
+
+    if (parsed.problems.length > 0) {
+      console.warn("Analysis failed validation, requesting a repair", parsed.problems);
+      try {
+        const repaired = readAnalysisResponse(await requestAnalysisRepair(image, text, parsed.problems, signal));
+        if (repaired.analysis && (!parsed.analysis || repaired.problems.length < parsed.problems.length)) {
+          parsed = repaired;
+        }
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        console.warn("Analysis repair failed", e);
+      }
+    }
+
+    if (!parsed.analysis) {
+      throw new Error(`The AI returned an analysis that could not be read: ${parsed.problems.join('; ')}`);
+    }
+    if (parsed.problems.length > 0) {
+      console.warn("Using analysis with remaining validation problems", parsed.problems);
     }
+
+    const { analysis } = normalizeAnalysis(parsed.analysis);
+
+    // Post-process to map icons
+    analysis.components = analysis.components.map(c => ({
+      ...c,
+      icon: mapTypeToIcon(c.type)
+    }));
+
+    return analysis;
   } catch (error) {
-    console.error("Gemini Analysis Error:", error);
+    console.error("Schematic Analysis Error:", error);
     throw error;
   }
 };
 
+// Tiles analyzed at the same time within one page
+const TILE_CONCURRENCY = 2;
+
+const tilePromptNote = (tile: TileRegion) =>
+  `This image is tile ${tile.row * tile.cols + tile.col + 1} of ${tile.rows * tile.cols} (row ${tile.row + 1}, column ${tile.col + 1}) cut from a larger sheet. Bounding boxes are relative to this tile. Include components cut by the tile edge if their designator is readable, and name nets by their printed labels wherever possible so they can be matched across tiles.`;
+
+/**
+ * Analyzes a large page as a whole for its description and tile by tile for
+ * its details, then merges the results. `renderTile` returns an image of the
+ * given region, ideally at a higher resolution than `base64Image`.
+ */
+export const analyzeSchematicTiled = async (
+  base64Image: string,
+  tiles: TileRegion[],
+  renderTile: (tile: TileRegion) => Promise<string>,
+  signal?: AbortSignal
+): Promise<SchematicAnalysis> => {
+  const overview = await analyzeSchematicImage(base64Image, signal);
+
+  const outcomes = await runJobs(
+    tiles,
+    async (tile, jobSignal) => analyzeSchematicImage(await renderTile(tile), jobSignal, tilePromptNote(tile)),
+    { concurrency: TILE_CONCURRENCY, signal }
+  );
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+  // A failed tile only loses detail in its region, so it is flagged instead
+  // of failing the page and throwing away the overview and the other tiles
+  const results: TileAnalysis[] = [];
+  const failedRegions: string[] = [];
+  outcomes.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      results.push({ tile: tiles[i], analysis: outcome.value });
+    } else if (outcome.status === 'rejected') {
+      const { row, col } = tiles[i];
+      console.warn(`Tile ${row + 1},${col + 1} failed`, outcome.error);
+      failedRegions.push(`row ${row + 1}, column ${col + 1}`);
+    }
+  });
+  const failureNote = failedRegions.length > 0
+    ? [`Detailed analysis failed for ${failedRegions.length} of ${tiles.length} region(s) of this sheet (${failedRegions.join('; ')}); components and nets there may be missing.`]
+    : [];
+
+  if (results.length === 0) {
+    return { ...overview, potentialIssues: [...overview.potentialIssues, ...failureNote] };
+  }
+
+  const { analysis } = normalizeAnalysis(mergeTileAnalyses(overview, results));
+  return { ...analysis, potentialIssues: [...analysis.potentialIssues, ...failureNote] };
+};
+
 export const chatWithSchematicContext = async (
   currentHistory: { role: 'user' | 'model', text: string }[],
   newMessage: string,
   analysisContext: SchematicAnalysis
 ): Promise<string> => {
-  // We use the Pro model for deep reasoning in chat as well
+  // We use the pro tier for deep reasoning in chat as well
   const contextPrompt = `
     Context: You are discussing a schematic that has been analyzed.
     Circuit Title: ${analysisContext.title}
@@ -226,14 +411,12 @@ export const chatWithSchematicContext = async (
   `;
 
   try {
-     const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: [
-        ...currentHistory.map(h => ({ role: h.role, parts: [{ text: h.text }] })),
-        { role: 'user', parts: [{ text: contextPrompt }] }
-      ],
+    return await getAIProvider().generate({
+      task: 'chat',
+      tier: 'pro',
+      history: currentHistory,
+      prompt: contextPrompt,
     });
-    return response.text || "I couldn't generate a response.";
   } catch (e) {
     console.error("Chat error", e);
     return "Error communicating with the AI assistant.";
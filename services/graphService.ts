@@ -0,0 +1,186 @@
+import { SchematicAnalysis } from "../types";
+import { formatPinRef, getNetPinRefs, indexComponents, isSupplyNetName } from "./netlistService";
+
+export interface GraphNode {
+  id: string;
+  kind: 'component' | 'net';
+  label: string;
+  designator?: string; // Upper-cased, for component nodes
+  netId?: string;      // For net nodes
+  icon?: string;       // Icon category of a component node
+  block: number | null; // Index into the analysis' functional blocks
+  x: number;
+  y: number;
+}
+
+export interface GraphEdge {
+  source: string; // Component node id
+  target: string; // Net node id
+  pins: string[];
+}
+
+export interface ConnectivityGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  hiddenNets: string[]; // Supply nets left out of the graph
+}
+
+const LAYOUT_ITERATIONS = 300;
+// Preferred distance between a component and a net it connects to, in layout units
+const IDEAL_EDGE_LENGTH = 60;
+// Share of the distance to their block's centre nodes move each step
+const BLOCK_GRAVITY = 0.08;
+const CENTER_GRAVITY = 0.01;
+const COOLING = 0.985;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export const componentNodeId = (designator: string) => `c:${designator.trim().toUpperCase()}`;
+
+/**
+ * Force-directed layout (Fruchterman-Reingold) with an extra pull of each node
+ * toward the centre of its functional block, so blocks form visible clusters.
+ * Starting positions are deterministic, so the same analysis always gives the
+ * same picture.
+ */
+const layoutGraph = (nodes: GraphNode[], edges: GraphEdge[], blockCount: number) => {
+  const n = nodes.length;
+  if (n === 0) return;
+  const k = IDEAL_EDGE_LENGTH;
+  const spread = k * Math.sqrt(n);
+  const indexById = new Map(nodes.map((node, i) => [node.id, i]));
+  const links = edges.map(e => [indexById.get(e.source)!, indexById.get(e.target)!]);
+
+  // Blocks start evenly spaced on a circle, their members spiralling around them
+  const anchors = Array.from({ length: blockCount }, (_, b) => ({
+    x: Math.cos((2 * Math.PI * b) / blockCount) * spread / 2,
+    y: Math.sin((2 * Math.PI * b) / blockCount) * spread / 2,
+  }));
+  nodes.forEach((node, i) => {
+    const anchor = node.block !== null && blockCount > 1 ? anchors[node.block] : { x: 0, y: 0 };
+    const r = (k / 2) * Math.sqrt(i + 1);
+    node.x = anchor.x + Math.cos(i * GOLDEN_ANGLE) * r;
+    node.y = anchor.y + Math.sin(i * GOLDEN_ANGLE) * r;
+  });
+
+  const dx = new Float64Array(n);
+  const dy = new Float64Array(n);
+  let temperature = spread / 4;
+
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const ddx = nodes[i].x - nodes[j].x;
+        const ddy = nodes[i].y - nodes[j].y;
+        const force = (k * k) / Math.max(ddx * ddx + ddy * ddy, 0.01);
+        dx[i] += ddx * force;
+        dy[i] += ddy * force;
+        dx[j] -= ddx * force;
+        dy[j] -= ddy * force;
+      }
+    }
+
+    links.forEach(([s, t]) => {
+      const ddx = nodes[s].x - nodes[t].x;
+      const ddy = nodes[s].y - nodes[t].y;
+      const force = Math.hypot(ddx, ddy) / k;
+      dx[s] -= ddx * force;
+      dy[s] -= ddy * force;
+      dx[t] += ddx * force;
+      dy[t] += ddy * force;
+    });
+
+    const centres = Array.from({ length: blockCount }, () => ({ x: 0, y: 0, count: 0 }));
+    nodes.forEach(node => {
+      if (node.block === null) return;
+      centres[node.block].x += node.x;
+      centres[node.block].y += node.y;
+      centres[node.block].count++;
+    });
+
+    nodes.forEach((node, i) => {
+      if (node.block !== null) {
+        const centre = centres[node.block];
+        dx[i] += (centre.x / centre.count - node.x) * BLOCK_GRAVITY * k;
+        dy[i] += (centre.y / centre.count - node.y) * BLOCK_GRAVITY * k;
+      }
+      dx[i] -= node.x * CENTER_GRAVITY * k;
+      dy[i] -= node.y * CENTER_GRAVITY * k;
+
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length > 0) {
+        const step = Math.min(length, temperature) / length;
+        node.x += dx[i] * step;
+        node.y += dy[i] * step;
+      }
+    });
+
+    temperature = Math.max(temperature * COOLING, 0.5);
+  }
+};
+
+/**
+ * Builds a bipartite graph of the analysis: one node per component, one node
+ * per net, and an edge wherever a component has pins on a net. Pins naming
+ * unknown components are left out (the integrity checks report those).
+ * Supply and ground rails connect nearly everything and can be hidden so the
+ * signal topology stands out.
+ */
+export const buildConnectivityGraph = (analysis: SchematicAnalysis, hideSupplyNets: boolean): ConnectivityGraph => {
+  const index = indexComponents(analysis.components || []);
+  const blocks = analysis.functionalBlocks || [];
+
+  // A component listed in several blocks is grouped with the first
+  const blockOf = new Map<string, number>();
+  blocks.forEach((block, b) => block.componentsInvolved.forEach(d => {
+    const key = d.trim().toUpperCase();
+    if (!blockOf.has(key)) blockOf.set(key, b);
+  }));
+
+  const nodes: GraphNode[] = [...index.entries()].map(([key, component]) => ({
+    id: componentNodeId(key),
+    kind: 'component',
+    label: component.designator,
+    designator: key,
+    icon: component.icon || 'generic',
+    block: blockOf.get(key) ?? null,
+    x: 0,
+    y: 0,
+  }));
+  const edges: GraphEdge[] = [];
+  const hiddenNets: string[] = [];
+
+  (analysis.netlist || []).forEach((net, i) => {
+    if (hideSupplyNets && isSupplyNetName(net.id)) {
+      hiddenNets.push(net.id);
+      return;
+    }
+
+    const pinsByDesignator = new Map<string, string[]>();
+    getNetPinRefs(net).forEach(ref => {
+      if (!index.has(ref.designator)) return;
+      if (!pinsByDesignator.has(ref.designator)) pinsByDesignator.set(ref.designator, []);
+      pinsByDesignator.get(ref.designator)!.push(formatPinRef(ref));
+    });
+    if (pinsByDesignator.size === 0) return;
+
+    // A net belongs to a block when all of its parts do
+    const netBlocks = new Set([...pinsByDesignator.keys()].map(d => blockOf.get(d) ?? null));
+    const id = `n:${i}`;
+    nodes.push({
+      id,
+      kind: 'net',
+      label: net.id,
+      netId: net.id,
+      block: netBlocks.size === 1 ? [...netBlocks][0] : null,
+      x: 0,
+      y: 0,
+    });
+    pinsByDesignator.forEach((pins, designator) => edges.push({ source: componentNodeId(designator), target: id, pins }));
+  });
+
+  layoutGraph(nodes, edges, blocks.length);
+  return { nodes, edges, hiddenNets };
+};
@@ -0,0 +1,188 @@
+import { NetlistFinding, PageGrounding, PageTextItem, PageTextLayer, SchematicAnalysis, SchematicComponent } from "../types";
+import { expectedUnitFor, parseValue, sameQuantity } from "./valueService";
+
+// Reference designator prefixes in common use; anything else (pin names like
+// PB1 or A0) is not treated as a designator
+const DESIGNATOR_PATTERN = /^(R|C|L|D|Q|U|IC|J|P|K|S|SW|F|T|X|Y|TP|LED|VR|RV|FB|BT|M|CN|JP|RN|Z|ZD)\d{1,4}[A-Z]?$/i;
+
+// Passive values with a multiplier or unit ("10k", "100nF", "2.2uH")
+const PASSIVE_VALUE_PATTERN = /^(\d+(?:[.,]\d+)?(?:[pnuµμmkKMG]|meg)(?:F|H|Ω|R|ohms?)?|\d+(?:[.,]\d+)?(?:F|H|Ω|ohms?))$/i;
+// RKM notation ("4R7", "4k7", "1n5"); case-sensitive so "1N4148" is a part number
+const RKM_VALUE_PATTERN = /^\d+[RKkMpnuµμ]\d+[FH]?$/;
+// Part numbers such as NE555, LM358N, 1N4148, 2N3904, BC547B
+const PART_NUMBER_PATTERN = /^([A-Z]{1,5}\d{2,}[A-Z0-9\-/]*|\d[A-Z]\d{3,}[A-Z]?)$/;
+
+// Distances in PDF points (1/72 inch), so they hold for any sheet size
+const VALUE_RADIUS = 40;
+const SNAP_DISTANCE = 50;
+const LABEL_BOX_PADDING = 12;
+
+type ValueKind = 'passive' | 'part';
+
+const valueKind = (text: string): ValueKind | null =>
+  PASSIVE_VALUE_PATTERN.test(text) || RKM_VALUE_PATTERN.test(text) ? 'passive' : PART_NUMBER_PATTERN.test(text) ? 'part' : null;
+
+/**
+ * The kind of value a component should have: that of its current value, or
+ * else what its type suggests. Null when neither says.
+ */
+const expectedKind = (component: SchematicComponent): ValueKind | null => {
+  const current = valueKind(component.value.replace(/\s+/g, ''));
+  if (current) return current;
+  const unit = expectedUnitFor(component);
+  if (unit === null) return 'part';
+  return unit === 'Ω' || unit === 'F' || unit === 'H' ? 'passive' : null;
+};
+
+const center = (box: number[]) => [(box[0] + box[2]) / 2, (box[1] + box[3]) / 2];
+
+/**
+ * Distance in points from a point to a box (0 when inside).
+ */
+const distanceToBox = (point: number[], box: number[], layer: PageTextLayer) => {
+  const dy = Math.max(box[0] - point[0], 0, point[0] - box[2]) * layer.height;
+  const dx = Math.max(box[1] - point[1], 0, point[1] - box[3]) * layer.width;
+  return Math.hypot(dx, dy);
+};
+
+const distance = (a: PageTextItem, b: PageTextItem, layer: PageTextLayer) =>
+  distanceToBox(center(a.box), b.box, layer);
+
+const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+/**
+ * Moves a box, keeping its size, so it is centered on a point.
+ */
+const recenterBox = (box: number[], point: number[]) => {
+  const h = box[2] - box[0];
+  const w = box[3] - box[1];
+  const y0 = clamp(Math.min(point[0] - h / 2, 1 - h));
+  const x0 = clamp(Math.min(point[1] - w / 2, 1 - w));
+  return [y0, x0, y0 + h, x0 + w];
+};
+
+const boxAroundLabel = (label: PageTextItem, layer: PageTextLayer) => {
+  const py = LABEL_BOX_PADDING / layer.height;
+  const px = LABEL_BOX_PADDING / layer.width;
+  return [clamp(label.box[0] - py), clamp(label.box[1] - px), clamp(label.box[2] + py), clamp(label.box[3] + px)];
+};
+
+/**
+ * Reconciles an analysis with the exact text of a vector PDF page. Each value
+ * label is attributed to its nearest designator label; the model's value is
+ * replaced when the page says otherwise. Boxes far from their designator label
+ * are moved onto it, and designators printed on the page but missing from the
+ * analysis are reported. Returns the analysis unchanged and no grounding when
+ * the page has no designators in its text layer, as with scanned pages.
+ */
+export const groundAnalysis = (
+  analysis: SchematicAnalysis,
+  layer: PageTextLayer
+): { analysis: SchematicAnalysis; grounding: PageGrounding | null } => {
+  const known = new Set(analysis.components.map(c => c.designator.toUpperCase()));
+
+  // Pin labels such as D0 or Q7 inside an IC look like designators
+  const icBoxes = analysis.components.filter(c => c.icon === 'chip' && c.boundingBox).map(c => c.boundingBox!);
+  const isInsideIc = (item: PageTextItem) => icBoxes.some(box => distanceToBox(center(item.box), box, layer) === 0);
+  const labels = layer.items.filter(item =>
+    DESIGNATOR_PATTERN.test(item.text) && (known.has(item.text.toUpperCase()) || !isInsideIc(item)));
+  if (labels.length === 0) return { analysis, grounding: null };
+
+  const values = layer.items
+    .map(item => ({ item, kind: valueKind(item.text) }))
+    .filter((v): v is { item: PageTextItem; kind: ValueKind } => v.kind !== null && !DESIGNATOR_PATTERN.test(v.item.text));
+
+  // Each value belongs to the closest designator label within reach
+  const ownedValues = new Map<PageTextItem, { item: PageTextItem; kind: ValueKind; distance: number }[]>();
+  values.forEach(value => {
+    let best: PageTextItem | null = null;
+    let bestDistance = VALUE_RADIUS;
+    for (const label of labels) {
+      const d = distance(value.item, label, layer);
+      if (d <= bestDistance) {
+        best = label;
+        bestDistance = d;
+      }
+    }
+    if (best) {
+      if (!ownedValues.has(best)) ownedValues.set(best, []);
+      ownedValues.get(best)!.push({ ...value, distance: bestDistance });
+    }
+  });
+
+  const grounding: PageGrounding = { correctedValues: [], snappedBoxes: [], missedDesignators: [] };
+
+  const components = analysis.components.map((component): SchematicComponent => {
+    const candidates = labels.filter(l => l.text.toUpperCase() === component.designator.toUpperCase());
+    if (candidates.length === 0) return component;
+
+    // With several labels (e.g. split symbols), use the one nearest the model's box
+    const box = component.boundingBox;
+    const label = box
+      ? candidates.reduce((a, b) => distanceToBox(center(a.box), box, layer) <= distanceToBox(center(b.box), box, layer) ? a : b)
+      : candidates[0];
+    const updated: SchematicComponent = { ...component };
+
+    const owned = (ownedValues.get(label) || []).sort((a, b) => a.distance - b.distance);
+    if (owned.length > 0) {
+      // "100n" and "100nF", or "4k7" and "4.7k", name the same value
+      const unit = expectedUnitFor(component);
+      const current = parseValue(component.value, unit);
+      const matches = owned.some(v => sameQuantity(parseValue(v.item.text, unit), current));
+      // Only a value of the same kind replaces it, so an IC keeps its part
+      // number when a decoupling cap's "100n" sits next to its label
+      const kind = expectedKind(component);
+      const replacement = !matches && kind ? owned.find(v => v.kind === kind) : undefined;
+      if (replacement) {
+        updated.value = replacement.item.text;
+        grounding.correctedValues.push({ designator: component.designator, from: component.value, to: replacement.item.text });
+      }
+    }
+
+    if (!box) {
+      updated.boundingBox = boxAroundLabel(label, layer);
+      grounding.snappedBoxes.push(component.designator);
+    } else if (distanceToBox(center(label.box), box, layer) > SNAP_DISTANCE) {
+      updated.boundingBox = recenterBox(box, center(label.box));
+      grounding.snappedBoxes.push(component.designator);
+    }
+
+    return updated;
+  });
+
+  labels.forEach(label => {
+    const designator = label.text.toUpperCase();
+    if (!known.has(designator) && !grounding.missedDesignators.includes(designator)) {
+      grounding.missedDesignators.push(designator);
+    }
+  });
+
+  return { analysis: { ...analysis, components }, grounding };
+};
+
+/**
+ * Presents a grounding report alongside the netlist integrity findings.
+ */
+export const groundingToFindings = (grounding: PageGrounding): NetlistFinding[] => [
+  ...grounding.missedDesignators.map(designator => ({
+    ruleId: 'text-missed-designator',
+    severity: 'warning' as const,
+    message: `${designator} is printed on the page but missing from the analysis`,
+    designators: [designator],
+    nets: [],
+  })),
+  ...grounding.correctedValues.map(({ designator, from, to }) => ({
+    ruleId: 'text-corrected-value',
+    severity: 'info' as const,
+    message: `Value of ${designator} corrected from "${from || '(empty)'}" to "${to}" using the page text`,
+    designators: [designator],
+    nets: [],
+  })),
+  ...grounding.snappedBoxes.map(designator => ({
+    ruleId: 'text-snapped-box',
+    severity: 'info' as const,
+    message: `Bounding box of ${designator} moved to its label on the page`,
+    designators: [designator],
+    nets: [],
+  })),
+];
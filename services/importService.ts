@@ -0,0 +1,90 @@
+import { PageResult, ProjectData, SchematicAnalysis } from "../types";
+import { mapTypeToIcon } from "./geminiService";
+import { isObject, validateSchematicAnalysis } from "./validationService";
+
+// Only the first few problems are shown so the error message stays readable
+const MAX_REPORTED_ERRORS = 5;
+
+export const isJsonFile = (file: File) =>
+  file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+
+/**
+ * The error for an import that does not validate, e.g. "The file does not
+ * match the analysis format: ...", listing the first few problems.
+ */
+export const importFormatError = (subject: string, errors: string[]): Error => {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('; ');
+  const more = errors.length > MAX_REPORTED_ERRORS ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)` : '';
+  return new Error(`${subject} does not match the analysis format: ${shown}${more}`);
+};
+
+/**
+ * Fills in component icons, which exports do not need to carry.
+ */
+export const withComponentIcons = (analysis: SchematicAnalysis): SchematicAnalysis => ({
+  ...analysis,
+  components: analysis.components.map(c => ({ ...c, icon: c.icon || mapTypeToIcon(c.type) })),
+});
+
+/**
+ * Rebuilds a project from the JSON written by the "Analysis JSON" export
+ * (`{ metadata, pages: [{ pageNumber, analysis }] }`). A bare SchematicAnalysis
+ * object is accepted as a single page. The export carries no page images, so
+ * imported pages have an empty `image`.
+ */
+export const parseAnalysisExport = (text: string, fallbackName: string): ProjectData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const rawPages: unknown[] = isObject(raw) && Array.isArray(raw.pages)
+    ? raw.pages
+    : isObject(raw) && 'components' in raw
+      ? [{ pageNumber: 1, analysis: raw }]
+      : [];
+
+  if (rawPages.length === 0) {
+    throw new Error("The file does not contain any analyzed pages.");
+  }
+
+  const errors: string[] = [];
+  const pages: PageResult[] = [];
+
+  rawPages.forEach((rawPage, i) => {
+    const path = `pages[${i}]`;
+    if (!isObject(rawPage)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    const result = validateSchematicAnalysis(rawPage.analysis, `${path}.analysis`);
+    errors.push(...result.errors);
+    if (!result.value) return;
+
+    const pageNumber = Number(rawPage.pageNumber);
+    pages.push({
+      id: crypto.randomUUID(),
+      pageNumber: Number.isInteger(pageNumber) && pageNumber > 0 ? pageNumber : i + 1,
+      image: typeof rawPage.image === 'string' ? rawPage.image : '',
+      analysis: withComponentIcons(result.value),
+    });
+  });
+
+  if (errors.length > 0) {
+    throw importFormatError("The file", errors);
+  }
+
+  const metadata = isObject(raw) && isObject(raw.metadata) ? raw.metadata : {};
+  const name = typeof metadata.projectName === 'string' && metadata.projectName.trim()
+    ? metadata.projectName.trim()
+    : fallbackName;
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    timestamp: Date.now(),
+    pages,
+  };
+};
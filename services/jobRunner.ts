@@ -0,0 +1,117 @@
+export type JobState = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export type JobOutcome<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; error: Error }
+  | { status: 'cancelled' };
+
+export interface JobRunnerOptions {
+  concurrency?: number;
+  // Retries after the first attempt, only for retryable errors
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onStateChange?: (index: number, state: JobState, attempt: number) => void;
+}
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_MESSAGE = /rate limit|quota|resource_exhausted|overloaded|unavailable|timeout|\b(429|500|502|503|504)\b/i;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException ? error.name === 'AbortError' : (error as Error)?.name === 'AbortError';
+
+/**
+ * Rate limits and server errors are worth retrying, anything else is not.
+ * Checks an HTTP `status` on the error first, then falls back to the message.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUS.has(status);
+  return RETRYABLE_MESSAGE.test((error as Error)?.message || '');
+};
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as the signal fires.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `worker` over every item with bounded concurrency. Retryable failures
+ * are retried with exponential backoff and jitter. One failing job never stops
+ * the others; each job's outcome is returned in input order. Aborting the
+ * signal marks every unfinished job as cancelled.
+ */
+export const runJobs = async <T, R>(
+  items: T[],
+  worker: (item: T, signal: AbortSignal) => Promise<R>,
+  {
+    concurrency = 3,
+    maxRetries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 30000,
+    signal,
+    onStateChange,
+  }: JobRunnerOptions = {}
+): Promise<JobOutcome<R>[]> => {
+  const outcomes: JobOutcome<R>[] = items.map(() => ({ status: 'cancelled' }));
+  const jobSignal = signal || new AbortController().signal;
+  let next = 0;
+
+  items.forEach((_, i) => onStateChange?.(i, 'queued', 0));
+
+  const runOne = async (index: number) => {
+    for (let attempt = 0; ; attempt++) {
+      if (jobSignal.aborted) {
+        onStateChange?.(index, 'cancelled', attempt);
+        return;
+      }
+      onStateChange?.(index, attempt === 0 ? 'running' : 'retrying', attempt);
+      try {
+        outcomes[index] = { status: 'fulfilled', value: await worker(items[index], jobSignal) };
+        onStateChange?.(index, 'done', attempt);
+        return;
+      } catch (e) {
+        if (jobSignal.aborted || isAbortError(e)) {
+          onStateChange?.(index, 'cancelled', attempt);
+          return;
+        }
+        if (attempt >= maxRetries || !isRetryableError(e)) {
+          outcomes[index] = { status: 'rejected', error: e instanceof Error ? e : new Error(String(e)) };
+          onStateChange?.(index, 'failed', attempt);
+          return;
+        }
+        const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+        console.warn(`Job ${index} failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms`, e);
+        try {
+          await sleep(delay, jobSignal);
+        } catch {
+          onStateChange?.(index, 'cancelled', attempt);
+          return;
+        }
+      }
+    }
+  };
+
+  const lane = async () => {
+    while (next < items.length) {
+      await runOne(next++);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+  return outcomes;
+};
@@ -0,0 +1,97 @@
+import { SchematicAnalysis, SchematicComponent } from "../types";
+import { EXPORT_TOOL_NAME } from "./exportService";
+import { findComponentPin, formatPinRef, getMalformedPins, getNetPinRefs, indexComponents } from "./netlistService";
+
+export interface SkippedPin {
+  net: string;
+  pin: string;
+}
+
+export interface KicadExportResult {
+  content: string;
+  componentCount: number;
+  netCount: number;
+  // Pins whose designator is not in the component list
+  unknownPins: SkippedPin[];
+  // Pin strings that could not be split into designator and pin
+  malformedPins: SkippedPin[];
+}
+
+// KiCad "Device" library parts for the icon categories we assign
+const KICAD_LIB_PARTS: Record<string, { lib: string; part: string }> = {
+  resistor: { lib: 'Device', part: 'R' },
+  capacitor: { lib: 'Device', part: 'C' },
+  inductor: { lib: 'Device', part: 'L' },
+  diode: { lib: 'Device', part: 'D' },
+  transistor: { lib: 'Device', part: 'Q' },
+  switch: { lib: 'Switch', part: 'SW_Generic' },
+  connector: { lib: 'Connector', part: 'Conn_Generic' },
+};
+
+const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const libSourceFor = (comp: SchematicComponent) =>
+  KICAD_LIB_PARTS[comp.icon || ''] || { lib: EXPORT_TOOL_NAME, part: comp.type || 'Unknown' };
+
+/**
+ * Converts an analysis into a KiCad S-expression netlist (.net).
+ * Pins referencing unknown designators are left out of the netlist and reported.
+ */
+export const buildKicadNetlist = (analysis: SchematicAnalysis, sourceName: string): KicadExportResult => {
+  const componentIndex = indexComponents(analysis.components || []);
+  const unknownPins: SkippedPin[] = [];
+  const malformedPins: SkippedPin[] = [];
+
+  const lines: string[] = [];
+  lines.push('(export (version "E")');
+  lines.push('  (design');
+  lines.push(`    (source ${quote(sourceName)})`);
+  lines.push(`    (date ${quote(new Date().toISOString())})`);
+  lines.push(`    (tool ${quote(EXPORT_TOOL_NAME)}))`);
+
+  lines.push('  (components');
+  componentIndex.forEach((comp, designator) => {
+    const source = libSourceFor(comp);
+    lines.push(`    (comp (ref ${quote(designator)})`);
+    lines.push(`      (value ${quote(comp.value || '~')})`);
+    lines.push(`      (libsource (lib ${quote(source.lib)}) (part ${quote(source.part)}) (description ${quote(comp.type || '')}))`);
+    if (comp.notes) lines.push(`      (property (name "Notes") (value ${quote(comp.notes)}))`);
+    lines.push('    )');
+  });
+  lines.push('  )');
+
+  lines.push('  (nets');
+  let netCount = 0;
+  (analysis.netlist || []).forEach(net => {
+    const nodes: string[] = [];
+    getMalformedPins(net).forEach(raw => malformedPins.push({ net: net.id, pin: raw }));
+    getNetPinRefs(net).forEach(ref => {
+      if (!componentIndex.has(ref.designator)) {
+        unknownPins.push({ net: net.id, pin: formatPinRef(ref) });
+      } else {
+        // Pin names are resolved to numbers, and known pins carry their function and type
+        const pin = findComponentPin(componentIndex.get(ref.designator)!, ref.pin);
+        const details = pin
+          ? `${pin.name ? ` (pinfunction ${quote(pin.name)})` : ''}${pin.electricalType ? ` (pintype ${quote(pin.electricalType)})` : ''}`
+          : '';
+        nodes.push(`      (node (ref ${quote(ref.designator)}) (pin ${quote(pin ? pin.number : ref.pin)})${details})`);
+      }
+    });
+    if (nodes.length === 0) return;
+
+    netCount++;
+    lines.push(`    (net (code ${quote(String(netCount))}) (name ${quote(net.id)})`);
+    lines.push(...nodes);
+    lines.push('    )');
+  });
+  lines.push('  )');
+  lines.push(')');
+
+  return {
+    content: lines.join('\n') + '\n',
+    componentCount: componentIndex.size,
+    netCount,
+    unknownPins,
+    malformedPins,
+  };
+};
@@ -0,0 +1,354 @@
+import { ComponentPin, FindingSeverity, Net, NetlistFinding, PageResult, PinRef, SchematicAnalysis, SchematicComponent } from "../types";
+import type { SpreadsheetCell } from "./exportService";
+
+// Matches "U1-3", "Q2.B", "J1:12", "U3-IN-" or "U1 pin 4". The designator is
+// matched lazily so the first separator after it splits off the pin.
+const PIN_REF_PATTERN = /^([A-Za-z][A-Za-z0-9_]*?)\s*(?:[-.:]|\s+pin)\s*([A-Za-z0-9_+\-#/~]+)$/i;
+
+/**
+ * Parses a net pin string such as "U1-3" into its designator and pin parts.
+ * Returns null when the string does not look like a pin reference.
+ */
+export const parsePinRef = (raw: string): PinRef | null => {
+  const match = raw.trim().match(PIN_REF_PATTERN);
+  if (!match) return null;
+  return { designator: match[1].toUpperCase(), pin: match[2] };
+};
+
+export const formatPinRef = (ref: PinRef): string => `${ref.designator}-${ref.pin}`;
+
+const parsePinRefs = (pins: string[]): PinRef[] =>
+  pins.map(raw => parsePinRef(raw)).filter((ref): ref is PinRef => ref !== null);
+
+/**
+ * The pins of a net as structured references. Nets saved before these were
+ * recorded fall back to parsing `connectedPins`. Strings that are not pin
+ * references are left out; see getMalformedPins.
+ */
+export const getNetPinRefs = (net: Net): PinRef[] => net.pins ?? parsePinRefs(net.connectedPins);
+
+/**
+ * Entries of a net's pin list that could not be read as a pin reference.
+ */
+export const getMalformedPins = (net: Net): string[] => net.connectedPins.filter(raw => !parsePinRef(raw));
+
+/**
+ * Builds a net whose structured pins match its pin strings. Use it wherever
+ * `connectedPins` is produced or changed.
+ */
+export const createNet = (id: string, connectedPins: string[]): Net => ({ id, connectedPins, pins: parsePinRefs(connectedPins) });
+
+/**
+ * Builds a lookup of components keyed by upper-cased designator.
+ * The first component wins when the model returns duplicates.
+ */
+export const indexComponents = (components: SchematicComponent[]): Map<string, SchematicComponent> => {
+  const index = new Map<string, SchematicComponent>();
+  for (const comp of components) {
+    const key = (comp.designator || '').trim().toUpperCase();
+    if (key && !index.has(key)) index.set(key, comp);
+  }
+  return index;
+};
+
+/**
+ * Upper-cased designators of every component with a pin on the net.
+ */
+export const getNetDesignators = (net: Net): string[] => {
+  return [...new Set(getNetPinRefs(net).map(ref => ref.designator))];
+};
+
+/**
+ * Nets a component is connected to, with the pins it has on each.
+ */
+export const getComponentNets = (netlist: Net[], designator: string): { net: Net; pins: string[] }[] => {
+  const key = designator.trim().toUpperCase();
+  return netlist
+    .map(net => ({ net, pins: getNetPinRefs(net).filter(ref => ref.designator === key).map(formatPinRef) }))
+    .filter(entry => entry.pins.length > 0);
+};
+
+/**
+ * Finds the component pin a net entry refers to, by number or, failing that, by name.
+ */
+export const findComponentPin = (component: SchematicComponent, pin: string): ComponentPin | undefined => {
+  const key = pin.trim().toUpperCase();
+  const pins = component.pins || [];
+  return pins.find(p => p.number.toUpperCase() === key) || pins.find(p => p.name?.toUpperCase() === key);
+};
+
+export const NETLIST_RULES = {
+  duplicateDesignator: 'duplicate-designator',
+  duplicateNetId: 'duplicate-net-id',
+  emptyNet: 'empty-net',
+  malformedPin: 'malformed-pin',
+  unknownDesignator: 'unknown-designator',
+  unknownPin: 'unknown-pin',
+  singlePinNet: 'single-pin-net',
+  duplicatePinInNet: 'duplicate-pin-in-net',
+  pinOnMultipleNets: 'pin-on-multiple-nets',
+  unconnectedComponent: 'unconnected-component',
+} as const;
+
+const SEVERITY_ORDER: Record<FindingSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export const sortFindings = (findings: NetlistFinding[]): NetlistFinding[] =>
+  findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+/**
+ * Runs deterministic integrity rules over an analysis' components and netlist.
+ * Findings are sorted by severity, errors first.
+ */
+export const checkNetlist = (analysis: SchematicAnalysis): NetlistFinding[] => {
+  const findings: NetlistFinding[] = [];
+  const add = (ruleId: string, severity: FindingSeverity, message: string, designators: string[] = [], nets: string[] = []) =>
+    findings.push({ ruleId, severity, message, designators, nets });
+
+  const components = analysis.components || [];
+  const netlist = analysis.netlist || [];
+  const componentIndex = indexComponents(components);
+
+  const designatorCounts = new Map<string, number>();
+  components.forEach(c => {
+    const key = (c.designator || '').trim().toUpperCase();
+    if (key) designatorCounts.set(key, (designatorCounts.get(key) || 0) + 1);
+  });
+  designatorCounts.forEach((count, designator) => {
+    if (count > 1) {
+      add(NETLIST_RULES.duplicateDesignator, 'error', `${designator} is listed ${count} times in the component list`, [designator]);
+    }
+  });
+
+  const netIdCounts = new Map<string, number>();
+  netlist.forEach(net => netIdCounts.set(net.id, (netIdCounts.get(net.id) || 0) + 1));
+  netIdCounts.forEach((count, id) => {
+    if (count > 1) add(NETLIST_RULES.duplicateNetId, 'warning', `Net ${id} appears ${count} times`, [], [id]);
+  });
+
+  // normalized pin -> nets it appears on
+  const pinNets = new Map<string, Set<string>>();
+  const connected = new Set<string>();
+
+  netlist.forEach(net => {
+    if (net.connectedPins.length === 0) {
+      add(NETLIST_RULES.emptyNet, 'warning', `Net ${net.id} has no connected pins`, [], [net.id]);
+      return;
+    }
+
+    getMalformedPins(net).forEach(raw => {
+      add(NETLIST_RULES.malformedPin, 'error', `"${raw}" on net ${net.id} is not a valid pin reference (expected e.g. "U1-3")`, [], [net.id]);
+    });
+
+    const seen = new Set<string>();
+    getNetPinRefs(net).forEach(ref => {
+      const pin = formatPinRef(ref);
+      if (seen.has(pin)) {
+        add(NETLIST_RULES.duplicatePinInNet, 'info', `${pin} is listed more than once on net ${net.id}`, [ref.designator], [net.id]);
+        return;
+      }
+      seen.add(pin);
+
+      if (!componentIndex.has(ref.designator)) {
+        add(NETLIST_RULES.unknownDesignator, 'error', `${pin} on net ${net.id} references ${ref.designator}, which is not in the component list`, [ref.designator], [net.id]);
+      } else {
+        connected.add(ref.designator);
+        const component = componentIndex.get(ref.designator)!;
+        if (component.pins?.length && !findComponentPin(component, ref.pin)) {
+          add(NETLIST_RULES.unknownPin, 'warning', `${pin} on net ${net.id} is not one of the ${component.pins.length} pins listed for ${ref.designator}`, [ref.designator], [net.id]);
+        }
+      }
+
+      if (!pinNets.has(pin)) pinNets.set(pin, new Set());
+      pinNets.get(pin)!.add(net.id);
+    });
+
+    if (seen.size === 1) {
+      const [only] = [...seen];
+      add(NETLIST_RULES.singlePinNet, 'warning', `Net ${net.id} only connects ${only}`, [parsePinRef(only)!.designator], [net.id]);
+    }
+  });
+
+  pinNets.forEach((nets, pin) => {
+    if (nets.size > 1) {
+      const netIds = [...nets];
+      add(NETLIST_RULES.pinOnMultipleNets, 'error', `${pin} is on ${netIds.length} nets (${netIds.join(', ')}), which would short them`, [parsePinRef(pin)!.designator], netIds);
+    }
+  });
+
+  if (netlist.length > 0) {
+    componentIndex.forEach((_, designator) => {
+      if (!connected.has(designator)) {
+        add(NETLIST_RULES.unconnectedComponent, 'info', `${designator} is not connected to any net`, [designator]);
+      }
+    });
+  }
+
+  return sortFindings(findings);
+};
+
+export const PIN_TABLE_HEADER = ['Page', 'Designator', 'Pin', 'Name', 'Electrical Type', 'Nets'];
+
+/**
+ * Lists every recorded pin of the given pages with the nets it is on.
+ */
+export const buildPinTable = (pages: PageResult[]): SpreadsheetCell[][] => {
+  const rows: SpreadsheetCell[][] = [PIN_TABLE_HEADER];
+  pages.forEach(page => {
+    const componentIndex = indexComponents(page.analysis.components || []);
+    // "designator-pin number" -> nets
+    const pinNets = new Map<string, string[]>();
+    (page.analysis.netlist || []).forEach(net => getNetPinRefs(net).forEach(ref => {
+      const component = componentIndex.get(ref.designator);
+      const pin = component && findComponentPin(component, ref.pin);
+      if (!pin) return;
+      const key = formatPinRef({ designator: ref.designator, pin: pin.number });
+      if (!pinNets.has(key)) pinNets.set(key, []);
+      if (!pinNets.get(key)!.includes(net.id)) pinNets.get(key)!.push(net.id);
+    }));
+
+    componentIndex.forEach((component, designator) => (component.pins || []).forEach(pin => rows.push([
+      page.pageNumber,
+      component.designator,
+      pin.number,
+      pin.name || '',
+      pin.electricalType || '',
+      (pinNets.get(formatPinRef({ designator, pin: pin.number })) || []).join(', '),
+    ])));
+  });
+  return rows;
+};
+
+export interface ProjectNetMember {
+  pageId: string;
+  pageNumber: number;
+  pin: string;
+  sourceNet: string; // Net name as written on that page
+}
+
+export interface ProjectNet {
+  key: string;
+  name: string;
+  pages: number[];
+  members: ProjectNetMember[];
+  isLocal: boolean; // Auto-generated names like "Net_1" are never merged across pages
+}
+
+export interface NetAliasSuspect {
+  nets: string[]; // ProjectNet keys
+  reason: string;
+}
+
+export interface ProjectNetlist {
+  nets: ProjectNet[];
+  suspectedAliases: NetAliasSuspect[];
+}
+
+// Names the model invents for unnamed wires. These only mean something on their own page.
+const LOCAL_NET_PATTERN = /^(net[_-]?\d+|n\$?\d+|net-\(.*\)|unnamed.*)$/i;
+const GROUND_NAME_PATTERN = /^(gnd|ground|agnd|dgnd|pgnd|sgnd|0v|vss|earth|chassis)$/i;
+
+// Positive and negative rails such as "VCC", "+5V", "3V3", "-12V" or "VBAT"
+const SUPPLY_NAME_PATTERN = /^([+-]?\d+(?:[.,]\d+)?V\d*|V(CC|DD|EE|BAT|IN|BUS|SYS|REF)\w*|[+-]\w+)$/i;
+
+export const isLocalNetName = (name: string) => LOCAL_NET_PATTERN.test(name.trim());
+
+/**
+ * Whether a net is a ground or supply rail, which typically touches most parts on a sheet.
+ */
+export const isSupplyNetName = (name: string) =>
+  GROUND_NAME_PATTERN.test(name.trim()) || SUPPLY_NAME_PATTERN.test(name.trim());
+
+// "+5V", "5V" and "5_V" normalize to the same string. A negative rail keeps
+// its sign, written "-5V" or "N5V", so it never matches the positive one.
+const looseNetName = (name: string) => {
+  const upper = name.trim().toUpperCase();
+  const isNegative = /^[-−]/.test(upper) || /^N\d+([._]\d+)?V/.test(upper);
+  const body = upper.replace(/^[-−+]|^N(?=\d+([._]\d+)?V)/, '').replace(/[^A-Z0-9]/g, '');
+  return isNegative ? `-${body}` : body;
+};
+
+/**
+ * Merges the per-page netlists into one project netlist. Nets with the same
+ * name (case-insensitive) on different pages are joined, since off-sheet
+ * connectors and global rails such as VCC and GND link sheets by name.
+ * Nets that may be the same but are named differently are reported as suspects.
+ */
+export const buildProjectNetlist = (pages: PageResult[]): ProjectNetlist => {
+  const nets = new Map<string, ProjectNet>();
+
+  pages.forEach(page => {
+    (page.analysis.netlist || []).forEach(net => {
+      const name = net.id.trim();
+      const isLocal = isLocalNetName(name);
+      const key = isLocal ? `${name.toUpperCase()}@${page.id}` : name.toUpperCase();
+
+      let merged = nets.get(key);
+      if (!merged) {
+        merged = { key, name: isLocal ? `${name} (p${page.pageNumber})` : name, pages: [], members: [], isLocal };
+        nets.set(key, merged);
+      }
+      if (!merged.pages.includes(page.pageNumber)) merged.pages.push(page.pageNumber);
+
+      [...getNetPinRefs(net).map(formatPinRef), ...getMalformedPins(net).map(raw => raw.trim())].forEach(pin => {
+        if (!merged!.members.some(m => m.pageId === page.id && m.pin === pin)) {
+          merged!.members.push({ pageId: page.id, pageNumber: page.pageNumber, pin, sourceNet: net.id });
+        }
+      });
+    });
+  });
+
+  const merged = [...nets.values()];
+  const suspectedAliases: NetAliasSuspect[] = [];
+  const seenPairs = new Set<string>();
+  const suspect = (a: ProjectNet, b: ProjectNet, reason: string) => {
+    const pair = [a.key, b.key].sort().join('|');
+    if (seenPairs.has(pair)) return;
+    seenPairs.add(pair);
+    suspectedAliases.push({ nets: [a.key, b.key], reason });
+  };
+
+  const named = merged.filter(n => !n.isLocal);
+  for (let i = 0; i < named.length; i++) {
+    for (let j = i + 1; j < named.length; j++) {
+      const a = named[i];
+      const b = named[j];
+      if (looseNetName(a.name) === looseNetName(b.name)) {
+        suspect(a, b, `"${a.name}" and "${b.name}" differ only in punctuation`);
+      } else if (GROUND_NAME_PATTERN.test(a.name) && GROUND_NAME_PATTERN.test(b.name)) {
+        suspect(a, b, `"${a.name}" and "${b.name}" are both ground names`);
+      }
+    }
+  }
+
+  // The same pin on two different nets usually means one net was named differently per sheet.
+  // Designators that are reused on several sheets name different parts, so their pins only
+  // count as the same pin on the same page.
+  const designatorPages = new Map<string, Set<string>>();
+  pages.forEach(page => indexComponents(page.analysis.components || []).forEach((_, designator) => {
+    if (!designatorPages.has(designator)) designatorPages.set(designator, new Set());
+    designatorPages.get(designator)!.add(page.id);
+  }));
+  const pinKey = (m: ProjectNetMember) => {
+    const ref = parsePinRef(m.pin);
+    const isUnique = !!ref && (designatorPages.get(ref.designator)?.size ?? 0) <= 1;
+    return isUnique ? m.pin : `${m.pageId}:${m.pin}`;
+  };
+
+  const pinOwners = new Map<string, { pin: string; owners: ProjectNet[] }>();
+  merged.forEach(net => net.members.forEach(m => {
+    const key = pinKey(m);
+    const entry = pinOwners.get(key) || { pin: m.pin, owners: [] };
+    if (!entry.owners.includes(net)) entry.owners.push(net);
+    pinOwners.set(key, entry);
+  }));
+  pinOwners.forEach(({ pin, owners }) => {
+    for (let i = 1; i < owners.length; i++) {
+      suspect(owners[0], owners[i], `both contain ${pin}`);
+    }
+  });
+
+  return {
+    nets: merged.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })),
+    suspectedAliases,
+  };
+};
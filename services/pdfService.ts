@@ -1,40 +1,165 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import { PageTextItem, PageTextLayer } from '../types';
 
 // Set worker source explicitly for browser environment
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.min.mjs';
 
-export const convertPdfToImages = async (file: File): Promise<string[]> => {
+// Thumbnails are small enough to keep one per page of a large manual in memory,
+// and still legible enough for page classification.
+const THUMBNAIL_WIDTH = 400;
+const THUMBNAIL_QUALITY = 0.6;
+
+// Set scale for good resolution for AI (2.0 is usually sufficient)
+export const ANALYSIS_SCALE = 2.0;
+const ANALYSIS_QUALITY = 0.8;
+
+// Tiles of large sheets are rendered sharper than the whole page
+export const TILE_SCALE = 3.0;
+
+export interface PdfDocumentHandle {
+  numPages: number;
+  // Page numbers are 1-based, like in the PDF viewer
+  renderThumbnail(pageNumber: number): Promise<string>;
+  renderPage(pageNumber: number, scale?: number): Promise<string>;
+  // Renders only the region [ymin, xmin, ymax, xmax] (0-1) of a page
+  renderRegion(pageNumber: number, box: number[], scale?: number): Promise<string>;
+  // Positioned words of the page's text layer; empty for scanned pages
+  extractText(pageNumber: number): Promise<PageTextLayer>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * Opens a PDF without rendering anything. Pages are rendered on demand, so
+ * memory stays bounded regardless of the page count.
+ */
+export const openPdf = async (file: File): Promise<PdfDocumentHandle> => {
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const numPages = pdf.numPages;
-  const images: string[] = [];
-
-  // Limit max pages to prevent browser crash on massive manuals, or process in chunks
-  // For this demo, we'll cap at 20 pages for safety, or you can implement pagination loading.
-  const pagesToProcess = Math.min(numPages, 20); 
-
-  for (let i = 1; i <= pagesToProcess; i++) {
-    const page = await pdf.getPage(i);
-    
-    // Set scale for good resolution for AI (2.0 is usually sufficient)
-    const viewport = page.getViewport({ scale: 2.0 });
+
+  const render = async (
+    pageNumber: number,
+    getScale: (width: number) => number,
+    quality: number,
+    box: number[] = [0, 0, 1, 1]
+  ): Promise<string> => {
+    const page = await pdf.getPage(pageNumber);
+    const scale = getScale(page.getViewport({ scale: 1 }).width);
+    const full = page.getViewport({ scale });
+    const [y0, x0, y1, x1] = box;
+    // Shifting the viewport and shrinking the canvas renders just the region
+    const viewport = page.getViewport({ scale, offsetX: -x0 * full.width, offsetY: -y0 * full.height });
     const canvas = document.createElement('canvas');
     const context = canvas.getContext('2d');
 
-    if (!context) continue;
+    if (!context) throw new Error(`Could not create a canvas to render page ${pageNumber}`);
+
+    canvas.height = Math.round((y1 - y0) * full.height);
+    canvas.width = Math.round((x1 - x0) * full.width);
+
+    try {
+      await page.render({
+        canvasContext: context,
+        viewport: viewport,
+      }).promise;
+
+      // Convert to JPEG to save some size compared to PNG
+      return canvas.toDataURL('image/jpeg', quality);
+    } finally {
+      // Release the bitmap right away instead of waiting for GC
+      canvas.width = 0;
+      canvas.height = 0;
+      page.cleanup();
+    }
+  };
 
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
+  const extractText = async (pageNumber: number): Promise<PageTextLayer> => {
+    const page = await pdf.getPage(pageNumber);
+    try {
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const items: PageTextItem[] = [];
 
-    await page.render({
-      canvasContext: context,
-      viewport: viewport,
-    }).promise;
+      content.items.forEach(item => {
+        if (!('str' in item) || !item.str.trim()) return;
+        // Text space -> viewport pixels; [a, b] runs along the baseline, [c, d] up the glyphs
+        const [a, b, c, d, e, f] = pdfjsLib.Util.transform(viewport.transform, item.transform);
+        const scaleX = Math.hypot(a, b) || 1;
+        const along = [a / scaleX, b / scaleX];
 
-    // Convert to high quality JPEG to save some size compared to PNG
-    const base64 = canvas.toDataURL('image/jpeg', 0.8);
-    images.push(base64);
+        // Split into words, spreading the item's width by character count
+        const charWidth = item.width / item.str.length;
+        for (const match of item.str.matchAll(/\S+/g)) {
+          const start = match.index! * charWidth;
+          const end = start + match[0].length * charWidth;
+          const x0 = e + along[0] * start;
+          const y0 = f + along[1] * start;
+          const x1 = e + along[0] * end;
+          const y1 = f + along[1] * end;
+          const xs = [x0, x1, x0 + c, x1 + c];
+          const ys = [y0, y1, y0 + d, y1 + d];
+          items.push({
+            text: match[0],
+            box: [
+              Math.min(...ys) / viewport.height,
+              Math.min(...xs) / viewport.width,
+              Math.max(...ys) / viewport.height,
+              Math.max(...xs) / viewport.width,
+            ],
+          });
+        }
+      });
+
+      return { width: viewport.width, height: viewport.height, items };
+    } finally {
+      page.cleanup();
+    }
+  };
+
+  return {
+    numPages: pdf.numPages,
+    renderThumbnail: (pageNumber) => render(pageNumber, width => THUMBNAIL_WIDTH / width, THUMBNAIL_QUALITY),
+    renderPage: (pageNumber, scale = ANALYSIS_SCALE) => render(pageNumber, () => scale, ANALYSIS_QUALITY),
+    renderRegion: (pageNumber, box, scale = TILE_SCALE) => render(pageNumber, () => scale, ANALYSIS_QUALITY, box),
+    extractText,
+    destroy: () => pdf.destroy(),
+  };
+};
+
+/**
+ * Parses a page range such as "1-5, 8, 12-" into sorted, unique page numbers.
+ * An open-ended range runs to the last page. Throws on malformed input.
+ */
+export const parsePageRanges = (input: string, numPages: number): number[] => {
+  const pages = new Set<number>();
+  const parts = input.split(/[,;\s]+/).filter(Boolean);
+
+  for (const part of parts) {
+    const match = part.match(/^(\d*)(?:(-)(\d*))?$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`"${part}" is not a page or range`);
+    }
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : numPages) : start;
+    if (start < 1 || end > numPages || start > end) {
+      throw new Error(`"${part}" is outside pages 1-${numPages}`);
+    }
+    for (let p = start; p <= end; p++) pages.add(p);
   }
 
-  return images;
+  return [...pages].sort((a, b) => a - b);
+};
+
+/**
+ * Formats page numbers as compact ranges, e.g. [1, 2, 3, 7] -> "1-3, 7".
+ */
+export const formatPageRanges = (pageNumbers: number[]): string => {
+  const sorted = [...new Set(pageNumbers)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    ranges.push(i === j ? `${sorted[i]}` : `${sorted[i]}-${sorted[j]}`);
+    i = j;
+  }
+  return ranges.join(', ');
 };
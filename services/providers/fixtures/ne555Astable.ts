@@ -0,0 +1,44 @@
+import { SchematicAnalysis } from "../../../types";
+
+// A small, self-consistent analysis used by the mock provider
+export const NE555_ASTABLE_FIXTURE: SchematicAnalysis = {
+  title: "NE555 Astable Oscillator",
+  overview: "A 555 timer wired as an astable multivibrator driving an LED through a current-limiting resistor.",
+  components: [
+    {
+      designator: "U1", type: "Timer IC", value: "NE555", notes: "DIP-8", boundingBox: [0.35, 0.4, 0.65, 0.6],
+      pins: [
+        { number: "1", name: "GND", electricalType: "power_in", location: [0.65, 0.5] },
+        { number: "2", name: "TRIG", electricalType: "input", location: [0.55, 0.4] },
+        { number: "3", name: "OUT", electricalType: "output", location: [0.45, 0.6] },
+        { number: "4", name: "RESET", electricalType: "input", location: [0.35, 0.45] },
+        { number: "5", name: "CV", electricalType: "input", location: [0.6, 0.55] },
+        { number: "6", name: "THR", electricalType: "input", location: [0.5, 0.4] },
+        { number: "7", name: "DIS", electricalType: "open_collector", location: [0.42, 0.4] },
+        { number: "8", name: "VCC", electricalType: "power_in", location: [0.35, 0.55] },
+      ],
+    },
+    { designator: "R1", type: "Resistor", value: "10k", notes: "", boundingBox: [0.15, 0.2, 0.3, 0.26] },
+    { designator: "R2", type: "Resistor", value: "47k", notes: "", boundingBox: [0.35, 0.2, 0.5, 0.26] },
+    { designator: "R3", type: "Resistor", value: "470", notes: "LED current limit", boundingBox: [0.42, 0.7, 0.48, 0.82] },
+    { designator: "C1", type: "Capacitor", value: "10uF", notes: "Timing capacitor", boundingBox: [0.6, 0.2, 0.72, 0.26] },
+    { designator: "C2", type: "Capacitor", value: "10nF", notes: "Control voltage decoupling", boundingBox: [0.7, 0.45, 0.8, 0.5] },
+    { designator: "D1", type: "LED", value: "Red", notes: "", boundingBox: [0.42, 0.84, 0.5, 0.9] },
+  ],
+  functionalBlocks: [
+    { name: "Timing Network", description: "R1, R2 and C1 set the oscillation frequency and duty cycle.", componentsInvolved: ["R1", "R2", "C1"] },
+    { name: "Timer", description: "The 555 switches its output as C1 charges and discharges.", componentsInvolved: ["U1", "C2"] },
+    { name: "Output Indicator", description: "The output drives an LED through R3.", componentsInvolved: ["R3", "D1"] },
+  ],
+  connectivityLogic: "VCC feeds R1 and U1 pins 4 and 8. R1 joins R2 at the discharge pin (7). R2 connects to the threshold and trigger pins (6, 2) and C1. The output (pin 3) drives R3 into D1's anode; D1's cathode returns to GND.",
+  netlist: [
+    { id: "VCC", connectedPins: ["U1-8", "U1-4", "R1-1"] },
+    { id: "GND", connectedPins: ["U1-1", "C1-2", "C2-2", "D1-K"] },
+    { id: "DIS", connectedPins: ["U1-7", "R1-2", "R2-1"] },
+    { id: "THR", connectedPins: ["U1-6", "U1-2", "R2-2", "C1-1"] },
+    { id: "CV", connectedPins: ["U1-5", "C2-1"] },
+    { id: "OUT", connectedPins: ["U1-3", "R3-1"] },
+    { id: "LED_A", connectedPins: ["R3-2", "D1-A"] },
+  ],
+  potentialIssues: ["No supply decoupling capacitor is shown near U1."],
+};
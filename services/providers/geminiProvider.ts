@@ -0,0 +1,49 @@
+import { GoogleGenAI, Part } from "@google/genai";
+import { AIGenerateRequest, AIProvider, ModelTier } from "../aiProvider";
+
+const DEFAULT_MODELS: Record<ModelTier, string> = {
+  fast: "gemini-2.5-flash",
+  pro: "gemini-3-pro-preview",
+};
+
+interface GeminiProviderOptions {
+  apiKey?: string;
+  models?: Partial<Record<ModelTier, string | undefined>>;
+}
+
+export const createGeminiProvider = ({ apiKey, models = {} }: GeminiProviderOptions): AIProvider => {
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+    async generate(request: AIGenerateRequest): Promise<string> {
+      const parts: Part[] = (request.images || []).map(img => ({
+        inlineData: { mimeType: img.mimeType, data: img.data }
+      }));
+      parts.push({ text: request.prompt });
+
+      const response = await getClient().models.generateContent({
+        model: models[request.tier] || DEFAULT_MODELS[request.tier],
+        contents: [
+          ...(request.history || []).map(h => ({ role: h.role, parts: [{ text: h.text }] })),
+          { role: 'user', parts }
+        ],
+        config: {
+          systemInstruction: request.systemInstruction,
+          abortSignal: request.signal,
+          ...(request.responseSchema && {
+            responseMimeType: "application/json",
+            responseSchema: request.responseSchema,
+          }),
+        },
+      });
+
+      if (!response.text) throw new Error("No response text generated");
+      return response.text;
+    },
+  };
+};
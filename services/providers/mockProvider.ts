@@ -0,0 +1,21 @@
+import { AIGenerateRequest, AIProvider } from "../aiProvider";
+import { NE555_ASTABLE_FIXTURE } from "./fixtures/ne555Astable";
+
+/**
+ * Deterministic, offline provider backed by fixtures. Every page is treated as
+ * a schematic and every analysis returns the same circuit.
+ */
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+  async generate(request: AIGenerateRequest): Promise<string> {
+    switch (request.task) {
+      case 'detect':
+        return JSON.stringify({ pages: (request.images || []).map((_, index) => ({ index, category: 'schematic', confidence: 1 })) });
+      case 'analyze':
+      case 'repair':
+        return JSON.stringify(NE555_ASTABLE_FIXTURE);
+      case 'chat':
+        return "This is a canned answer from the offline mock provider. Configure AI_PROVIDER to use a real model.";
+    }
+  },
+});
@@ -0,0 +1,91 @@
+import { Schema } from "@google/genai";
+import { AIGenerateRequest, AIProvider, AIProviderError, ModelTier } from "../aiProvider";
+
+interface OpenAICompatibleProviderOptions {
+  baseUrl: string; // e.g. "http://localhost:8000/v1" for vLLM or llama.cpp
+  apiKey?: string;
+  models?: Partial<Record<ModelTier, string | undefined>>;
+}
+
+const DEFAULT_MODEL = 'default';
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+/**
+ * Converts a Gemini response schema (upper-case `Type` values) into JSON Schema.
+ */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = String(schema.type).toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API, so
+ * self-hosted vision models can stand in for Gemini.
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey, models = {} }: OpenAICompatibleProviderOptions): AIProvider => ({
+  name: 'openai',
+  async generate(request: AIGenerateRequest): Promise<string> {
+    const messages: ChatMessage[] = [];
+    if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+    (request.history || []).forEach(h => messages.push({
+      role: h.role === 'model' ? 'assistant' : 'user',
+      content: h.text
+    }));
+    messages.push({
+      role: 'user',
+      content: [
+        ...(request.images || []).map((img): ChatContentPart => ({
+          type: 'image_url',
+          image_url: { url: `data:${img.mimeType};base64,${img.data}` }
+        })),
+        { type: 'text', text: request.prompt },
+      ],
+    });
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: models[request.tier] || models.pro || DEFAULT_MODEL,
+        messages,
+        ...(request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: `${request.task}_response`, schema: toJsonSchema(request.responseSchema) },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new AIProviderError(`AI server responded with ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const body = await response.json();
+    const text = body?.choices?.[0]?.message?.content;
+    if (!text) throw new Error("No response text generated");
+    return text;
+  },
+});
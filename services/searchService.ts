@@ -0,0 +1,158 @@
+import { PageResult, ProjectData } from "../types";
+import { expectedUnitFor, parseValue, sameQuantity, ValueUnit } from "./valueService";
+
+export type SearchField = 'project' | 'title' | 'overview' | 'designator' | 'type' | 'value' | 'net' | 'issue';
+
+export interface SearchEntry {
+  kind: 'page' | 'component' | 'net';
+  pageId: string;
+  pageNumber: number;
+  fields: Partial<Record<SearchField, string[]>>;
+  designator?: string; // For component entries
+  netId?: string;      // For net entries
+  unit?: ValueUnit | null; // Expected unit of a component's value
+}
+
+// Everything searchable in one project, without its images. Stored in the
+// library database and rewritten whenever the project is saved.
+export interface SearchDocument {
+  projectId: string;
+  projectName: string;
+  timestamp: number;
+  entries: SearchEntry[];
+}
+
+export interface SearchTerm {
+  field: SearchField | null; // null matches any field
+  text: string;
+}
+
+export interface SearchHit {
+  projectId: string;
+  projectName: string;
+  entry: SearchEntry;
+  matches: { field: SearchField; text: string }[]; // What the terms matched, for display
+}
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  project: 'project', name: 'project',
+  title: 'title',
+  overview: 'overview',
+  designator: 'designator', ref: 'designator', des: 'designator',
+  type: 'type',
+  value: 'value', val: 'value',
+  net: 'net',
+  issue: 'issue', issues: 'issue',
+};
+
+// `field:text`, `field:"quoted text"`, `"quoted text"` or a bare word
+const TERM_PATTERN = /(?:(\w+):)?(?:"([^"]*)"|(\S+))/g;
+
+const MAX_HITS = 200;
+
+type IndexablePage = Omit<PageResult, 'image'>;
+
+/**
+ * Collects the searchable text of a project: each page's title, overview and
+ * issues, its components and its nets. Failed pages have nothing to index.
+ */
+export const buildSearchDocument = (project: Omit<ProjectData, 'pages'> & { pages: IndexablePage[] }): SearchDocument => {
+  const entries: SearchEntry[] = [];
+  project.pages.forEach(page => {
+    if (page.error) return;
+    const { analysis } = page;
+    const base = { pageId: page.id, pageNumber: page.pageNumber };
+    entries.push({
+      ...base,
+      kind: 'page',
+      fields: { title: [analysis.title], overview: [analysis.overview], issue: analysis.potentialIssues || [] },
+    });
+    (analysis.components || []).forEach(component => entries.push({
+      ...base,
+      kind: 'component',
+      designator: component.designator,
+      fields: { designator: [component.designator], type: [component.type], value: [component.value] },
+      unit: expectedUnitFor(component),
+    }));
+    (analysis.netlist || []).forEach(net => entries.push({
+      ...base,
+      kind: 'net',
+      netId: net.id,
+      fields: { net: [net.id] },
+    }));
+  });
+  return { projectId: project.id, projectName: project.name, timestamp: project.timestamp, entries };
+};
+
+/**
+ * Splits a query such as `type:relay net:"K1 COIL" 12V` into terms. Prefixes
+ * that are not known fields are searched as plain text.
+ */
+export const parseSearchQuery = (query: string): SearchTerm[] => {
+  const terms: SearchTerm[] = [];
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const field = match[1] ? FIELD_ALIASES[match[1].toLowerCase()] : null;
+    const value = (match[2] ?? match[3] ?? '').trim();
+    const text = match[1] && !field ? `${match[1]}:${value}` : value;
+    if (text) terms.push({ field: field || null, text });
+  }
+  return terms;
+};
+
+const includesText = (haystack: string, needle: string) => haystack.toLowerCase().includes(needle.toLowerCase());
+
+/**
+ * Whether a term matches one text of a field. Values also match by quantity,
+ * so "value:4k7" finds "4.7kΩ".
+ */
+const matchesField = (field: SearchField, text: string, term: SearchTerm, entry: SearchEntry) => {
+  if (includesText(text, term.text)) return true;
+  if (field !== 'value') return false;
+  const wanted = parseValue(term.text, entry.unit ?? null);
+  const actual = parseValue(text, entry.unit ?? null);
+  return wanted.magnitude !== null && actual.magnitude !== null && sameQuantity(wanted, actual);
+};
+
+const findMatch = (term: SearchTerm, entry: SearchEntry, projectName: string): { field: SearchField; text: string } | null => {
+  const fields: [SearchField, string[]][] = [
+    ...(Object.entries(entry.fields) as [SearchField, string[]][]),
+    ['project', [projectName]],
+  ];
+  for (const [field, texts] of fields) {
+    if (term.field && term.field !== field) continue;
+    const text = texts.find(t => t && matchesField(field, t, term, entry));
+    if (text) return { field, text };
+  }
+  return null;
+};
+
+const KIND_ORDER: Record<SearchEntry['kind'], number> = { component: 0, net: 1, page: 2 };
+
+/**
+ * Finds the entries that match every term of the query, newest project first.
+ * A page entry only counts as a hit when a term matched the page itself, so a
+ * project-name query lists pages rather than every part on them.
+ */
+export const searchDocuments = (documents: SearchDocument[], query: string): SearchHit[] => {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return [];
+
+  const hits: SearchHit[] = [];
+  [...documents].sort((a, b) => b.timestamp - a.timestamp).forEach(doc => {
+    const docHits: SearchHit[] = [];
+    doc.entries.forEach(entry => {
+      const matches: SearchHit['matches'] = [];
+      for (const term of terms) {
+        const match = findMatch(term, entry, doc.projectName);
+        if (!match) return;
+        matches.push(match);
+      }
+      const matchesProjectOnly = matches.every(m => m.field === 'project');
+      if (matchesProjectOnly && entry.kind !== 'page') return;
+      docHits.push({ projectId: doc.projectId, projectName: doc.projectName, entry, matches });
+    });
+    docHits.sort((a, b) => a.entry.pageNumber - b.entry.pageNumber || KIND_ORDER[a.entry.kind] - KIND_ORDER[b.entry.kind]);
+    hits.push(...docHits);
+  });
+  return hits.slice(0, MAX_HITS);
+};
@@ -0,0 +1,267 @@
+import { ComponentPin, SchematicAnalysis, SchematicComponent } from "../types";
+import { EXPORT_TOOL_NAME } from "./exportService";
+import { findComponentPin, formatPinRef, getNetPinRefs, indexComponents } from "./netlistService";
+import { parseComponentValue, toEngineering } from "./valueService";
+
+export interface SpiceExportResult {
+  content: string;
+  elementCount: number;
+  subcircuits: string[];
+  // Components that were written as comments instead of element cards
+  unmapped: { designator: string; reason: string }[];
+  // Assumptions made while mapping, e.g. guessed pin order
+  notes: string[];
+}
+
+const GROUND_NET_PATTERN = /^(0|gnd|ground|agnd|dgnd|pgnd|earth|chassis)$/i;
+
+// SPICE treats "M" as milli, so mega has to be written as "Meg"
+const SPICE_PREFIXES: Record<string, string> = { M: 'Meg', 'µ': 'u' };
+
+/**
+ * Converts a component's value ("4k7", "100nF", "10 µF 25V", "1M") into a
+ * SPICE number. Returns null when no numeric value can be found.
+ */
+const toSpiceValue = (comp: SchematicComponent): string | null => {
+  const { magnitude } = parseComponentValue(comp);
+  if (magnitude === null) return null;
+  const { mantissa, prefix } = toEngineering(magnitude);
+  return `${mantissa}${SPICE_PREFIXES[prefix] ?? prefix}`;
+};
+
+// Rail signs are spelled out so "+12V" and "-12V" stay separate nodes
+const toNodeName = (netId: string): string => {
+  const id = netId.trim();
+  if (GROUND_NET_PATTERN.test(id)) return '0';
+  const signed = id.replace(/^\+/, 'P').replace(/^[-−]/, 'N');
+  return signed.replace(/[^A-Za-z0-9_]/g, '_') || 'N';
+};
+
+/**
+ * Node names for every net. Nets whose sanitized names still collide get a
+ * numeric suffix; the renames are returned so the deck can list them.
+ */
+const assignNodeNames = (netIds: string[]): { nodes: Map<string, string>; renames: string[] } => {
+  const nodes = new Map<string, string>();
+  const owners = new Map<string, string>(); // node -> net id that claimed it
+  const renames: string[] = [];
+  netIds.forEach(raw => {
+    const id = raw.trim();
+    if (nodes.has(id)) return;
+    const base = toNodeName(id);
+    let node = base;
+    // Every ground net is meant to become node 0
+    for (let n = 2; node !== '0' && owners.has(node) && owners.get(node) !== id; n++) node = `${base}_${n}`;
+    if (node !== base) renames.push(`${id} -> ${node} (${base} is ${owners.get(base)})`);
+    owners.set(node, id);
+    nodes.set(id, node);
+  });
+  return { nodes, renames };
+};
+
+const toModelName = (value: string, fallback: string): string =>
+  (value || '').trim().replace(/[^A-Za-z0-9_]/g, '_').replace(/^_+|_+$/g, '') || fallback;
+
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Picks nodes for the named pins, in order. Names recorded on the component's
+ * pins are used first; falls back to natural pin order when the component
+ * uses plain pin numbers.
+ */
+const orderPins = (
+  pins: Map<string, string>,
+  names: string[][],
+  componentPins: ComponentPin[] = [],
+): { nodes: string[]; assumed: boolean } | null => {
+  const upper = new Map([...pins].map(([pin, node]) => [pin.toUpperCase(), node]));
+  componentPins.forEach(p => {
+    const node = pins.get(p.number);
+    if (node && p.name && !upper.has(p.name.toUpperCase())) upper.set(p.name.toUpperCase(), node);
+  });
+  const byName = names.map(aliases => aliases.map(a => upper.get(a)).find(Boolean));
+  if (byName.every(Boolean)) return { nodes: byName as string[], assumed: false };
+
+  if (pins.size !== names.length) return null;
+  const sorted = [...pins.keys()].sort(naturalCompare);
+  return { nodes: sorted.map(p => pins.get(p)!), assumed: true };
+};
+
+type CardKind = 'R' | 'C' | 'L' | 'D' | 'Q' | 'M' | 'X';
+
+const cardKindFor = (comp: SchematicComponent): CardKind | null => {
+  const type = (comp.type || '').toLowerCase();
+  switch (comp.icon) {
+    case 'resistor': return 'R';
+    case 'capacitor': return 'C';
+    case 'inductor': return 'L';
+    case 'diode': return 'D';
+    case 'transistor': return type.includes('fet') || type.includes('mos') ? 'M' : 'Q';
+    case 'chip': return 'X';
+    default: return null;
+  }
+};
+
+/**
+ * Converts an analysis into a SPICE netlist (.cir) for ngspice.
+ * Nets matching GND become node 0 and ICs become .subckt stubs. Anything that
+ * cannot be mapped is written as a comment and listed in the result.
+ */
+export const buildSpiceNetlist = (analysis: SchematicAnalysis): SpiceExportResult => {
+  const componentIndex = indexComponents(analysis.components || []);
+  const unmapped: SpiceExportResult['unmapped'] = [];
+  const notes: string[] = [];
+
+  // designator -> (pin -> node), with pin names resolved to numbers where the pins are known
+  const pinNodes = new Map<string, Map<string, string>>();
+  // Pins listed on more than one net are left unconnected rather than shorting those nets
+  const firstNet = new Map<string, string>();
+  const conflicts = new Map<string, { designator: string; pin: string; nets: string[] }>();
+  const { nodes, renames } = assignNodeNames((analysis.netlist || []).map(net => net.id));
+  renames.forEach(rename => notes.push(`Net renamed: ${rename}`));
+  (analysis.netlist || []).forEach(net => {
+    const node = nodes.get(net.id.trim())!;
+    getNetPinRefs(net).forEach(ref => {
+      const component = componentIndex.get(ref.designator);
+      const pin = component && findComponentPin(component, ref.pin);
+      const number = pin ? pin.number : ref.pin;
+      const key = formatPinRef({ designator: ref.designator, pin: number });
+      if (!pinNodes.has(ref.designator)) pinNodes.set(ref.designator, new Map());
+      const pins = pinNodes.get(ref.designator)!;
+      const current = pins.get(number);
+      if (current === undefined) {
+        pins.set(number, node);
+        firstNet.set(key, net.id);
+      } else if (current !== node) {
+        if (!conflicts.has(key)) conflicts.set(key, { designator: ref.designator, pin: number, nets: [firstNet.get(key)!] });
+        conflicts.get(key)!.nets.push(net.id);
+      }
+    });
+  });
+  conflicts.forEach((conflict, key) => {
+    pinNodes.get(conflict.designator)!.delete(conflict.pin);
+    notes.push(`${key} is on nets ${conflict.nets.join(', ')}, left unconnected`);
+  });
+
+  const cards: string[] = [];
+  const comments: string[] = [];
+  const models = new Map<string, string>();
+  const subcircuits = new Map<string, { pins: string[]; ports: string[] }>();
+
+  const skip = (designator: string, comp: SchematicComponent, reason: string) => {
+    unmapped.push({ designator, reason });
+    comments.push(`* ${designator} (${comp.type}, ${comp.value || 'no value'}): ${reason}`);
+  };
+
+  componentIndex.forEach((comp, designator) => {
+    const kind = cardKindFor(comp);
+    const pins = pinNodes.get(designator) || new Map<string, string>();
+
+    if (!kind) {
+      skip(designator, comp, `no SPICE mapping for type "${comp.type}"`);
+      return;
+    }
+    if (pins.size === 0) {
+      skip(designator, comp, 'not connected to any net');
+      return;
+    }
+
+    const name = designator.startsWith(kind) ? designator : `${kind}${designator}`;
+
+    if (kind === 'R' || kind === 'C' || kind === 'L') {
+      const order = orderPins(pins, [['1'], ['2']]);
+      const value = toSpiceValue(comp);
+      if (!order) return skip(designator, comp, `expected 2 connected pins, found ${pins.size}`);
+      if (!value) return skip(designator, comp, `could not read value "${comp.value}"`);
+      cards.push(`${name} ${order.nodes.join(' ')} ${value}`);
+      return;
+    }
+
+    if (kind === 'D') {
+      const order = orderPins(pins, [['A', 'ANODE'], ['K', 'C', 'CATHODE']], comp.pins);
+      if (!order) return skip(designator, comp, `expected 2 connected pins, found ${pins.size}`);
+      if (order.assumed) notes.push(`${designator}: pin names not A/K, assumed anode is the lower pin number`);
+      const model = toModelName(comp.value, 'DDEFAULT');
+      models.set(model, `.model ${model} D`);
+      cards.push(`${name} ${order.nodes.join(' ')} ${model}`);
+      return;
+    }
+
+    if (kind === 'Q' || kind === 'M') {
+      const names = kind === 'Q'
+        ? [['C', 'COLLECTOR'], ['B', 'BASE'], ['E', 'EMITTER']]
+        : [['D', 'DRAIN'], ['G', 'GATE'], ['S', 'SOURCE']];
+      const order = orderPins(pins, names, comp.pins);
+      if (!order) return skip(designator, comp, `expected 3 connected pins, found ${pins.size}`);
+      if (order.assumed) notes.push(`${designator}: pin names not ${names.map(n => n[0]).join('/')}, assumed that order by pin number`);
+      const model = toModelName(comp.value, kind === 'Q' ? 'QDEFAULT' : 'MDEFAULT');
+      const isP = /pnp|p-?ch|pmos/i.test(`${comp.type} ${comp.notes}`);
+      if (kind === 'Q') {
+        models.set(model, `.model ${model} ${isP ? 'PNP' : 'NPN'}`);
+        cards.push(`${name} ${order.nodes.join(' ')} ${model}`);
+      } else {
+        // MOSFET cards need a bulk node; tie it to the source
+        models.set(model, `.model ${model} ${isP ? 'PMOS' : 'NMOS'}`);
+        cards.push(`${name} ${order.nodes.join(' ')} ${order.nodes[2]} ${model}`);
+      }
+      return;
+    }
+
+    // ICs: instance a subcircuit stub with pins in natural order, its ports
+    // named after the pins where the pinout is known
+    const pinNames = [...pins.keys()].sort(naturalCompare);
+    const subckt = toModelName(comp.value, `SUB_${designator}`);
+    const existing = subcircuits.get(subckt);
+    if (existing && existing.pins.join(' ') !== pinNames.join(' ')) {
+      notes.push(`${designator}: pins differ from other ${subckt} instances, stub uses the first instance's pins`);
+    }
+    if (!existing) {
+      const ports = pinNames.map(p => {
+        const label = toModelName(findComponentPin(comp, p)?.name || '', '');
+        return `P${p.replace(/[^A-Za-z0-9_]/g, '_')}${label ? `_${label}` : ''}`;
+      });
+      subcircuits.set(subckt, { pins: pinNames, ports });
+    }
+    cards.push(`${name} ${pinNames.map(p => pins.get(p)).join(' ')} ${subckt}`);
+  });
+
+  const lines: string[] = [];
+  lines.push(`* ${analysis.title || 'Schematic'}`);
+  lines.push(`* Generated by ${EXPORT_TOOL_NAME} on ${new Date().toISOString()}`);
+  lines.push('* Model and subcircuit definitions below are placeholders. Replace them with vendor models.');
+  if (renames.length > 0) {
+    lines.push('* Nets renamed because their node names collided:');
+    lines.push(...renames.map(r => `*   ${r}`));
+  }
+  lines.push('');
+  lines.push(...cards);
+
+  if (models.size > 0) {
+    lines.push('');
+    lines.push(...models.values());
+  }
+
+  subcircuits.forEach(({ ports }, subckt) => {
+    lines.push('');
+    lines.push(`.subckt ${subckt} ${ports.join(' ')}`);
+    lines.push('* pin order from analysis; replace with vendor model');
+    lines.push(`.ends ${subckt}`);
+  });
+
+  if (comments.length > 0) {
+    lines.push('');
+    lines.push('* Components not included in the simulation:');
+    lines.push(...comments);
+  }
+
+  lines.push('');
+  lines.push('.end');
+
+  return {
+    content: lines.join('\n') + '\n',
+    elementCount: cards.length,
+    subcircuits: [...subcircuits.keys()],
+    unmapped,
+    notes,
+  };
+};
@@ -1,44 +1,308 @@
-import { openDB, DBSchema } from 'idb';
-import { ProjectData } from '../types';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import { PageResult, ProjectData, ProjectInfo, ProjectSummary } from '../types';
+import { buildSearchDocument, SearchDocument } from './searchService';
+
+// Pages are stored without their image, which lives in the images store.
+// `image` is only kept inline when it could not be converted to a Blob.
+type StoredPage = Omit<PageResult, 'image'> & { image?: string };
+
+interface StoredProject extends Omit<ProjectData, 'pages'> {
+  pages: StoredPage[];
+}
+
+interface StoredImage {
+  projectId: string;
+  pageId: string;
+  blob: Blob;
+}
 
 interface CircuitMindDB extends DBSchema {
   projects: {
     key: string;
-    value: ProjectData;
+    value: StoredProject;
     indexes: { 'by-date': number };
   };
+  summaries: {
+    key: string;
+    value: ProjectSummary;
+    indexes: { 'by-date': number };
+  };
+  images: {
+    key: [string, string]; // [projectId, pageId]
+    value: StoredImage;
+    indexes: { 'by-project': string };
+  };
+  search: {
+    key: string;
+    value: SearchDocument;
+  };
 }
 
+type UpgradeTransaction = IDBPTransaction<CircuitMindDB, StoreNames<CircuitMindDB>[], 'versionchange'>;
+
 const DB_NAME = 'circuit-mind-db';
-const STORE_NAME = 'projects';
 
-const getDB = async () => {
-  return openDB<CircuitMindDB>(DB_NAME, 1, {
-    upgrade(db) {
-      const store = db.createObjectStore(STORE_NAME, {
-        keyPath: 'id',
+// Tags are trimmed, de-duplicated and sorted
+const normalizeTags = (tags: string[] = []) =>
+  [...new Set(tags.map(tag => tag.trim()).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+const toSummary = (project: Omit<ProjectData, 'pages'> & { pages: unknown[] }): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  timestamp: project.timestamp,
+  pageCount: project.pages.length,
+  tags: normalizeTags(project.tags),
+  folder: project.folder || null,
+  pinned: !!project.pinned,
+});
+
+/**
+ * Decodes a data URL (or bare base64, assumed to be PNG) into a Blob.
+ * Synchronous so it can run inside an IndexedDB transaction without letting
+ * it commit. Returns null for empty or undecodable images.
+ */
+const dataUrlToBlob = (dataUrl: string): Blob | null => {
+  if (!dataUrl) return null;
+  const match = dataUrl.match(/^data:([^;,]+)?((?:;[^;,]*)*?),(.*)$/s);
+  const mimeType = match?.[1] || 'image/png';
+  const isBase64 = match ? match[2].includes(';base64') : true;
+  try {
+    if (!isBase64) return new Blob([decodeURIComponent(match![3])], { type: mimeType });
+    const binary = atob(match ? match[3] : dataUrl);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+  } catch (e) {
+    console.warn("Could not decode a page image", e);
+    return null;
+  }
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Schema migrations; entry `i` upgrades a database at version `i` to `i + 1`.
+ * Append new entries here and never edit released ones, so every older
+ * library can be brought up to date one step at a time. Migrations run inside
+ * the upgrade transaction and must only await requests on it.
+ */
+const MIGRATIONS: ((db: IDBPDatabase<CircuitMindDB>, tx: UpgradeTransaction) => Promise<void> | void)[] = [
+  // 1: projects with their page images inline as base64
+  (db) => {
+    const store = db.createObjectStore('projects', { keyPath: 'id' });
+    store.createIndex('by-date', 'timestamp');
+  },
+
+  // 2: page images moved to their own store as Blobs, summaries for listing
+  async (db, tx) => {
+    db.createObjectStore('summaries', { keyPath: 'id' }).createIndex('by-date', 'timestamp');
+    db.createObjectStore('images', { keyPath: ['projectId', 'pageId'] }).createIndex('by-project', 'projectId');
+
+    const projects = tx.objectStore('projects');
+    const images = tx.objectStore('images');
+    const summaries = tx.objectStore('summaries');
+    let cursor = await projects.openCursor();
+    while (cursor) {
+      const legacy = cursor.value as unknown as ProjectData;
+      const pages: StoredPage[] = legacy.pages.map(({ image, ...page }) => {
+        const blob = dataUrlToBlob(image);
+        if (blob) {
+          images.put({ projectId: legacy.id, pageId: page.id, blob });
+          return page;
+        }
+        return image ? { ...page, image } : page;
       });
-      store.createIndex('by-date', 'timestamp');
-    },
+      cursor.update({ ...legacy, pages });
+      summaries.put(toSummary(legacy));
+      cursor = await cursor.continue();
+    }
+  },
+
+  // 3: search index, one document per project
+  async (db, tx) => {
+    db.createObjectStore('search', { keyPath: 'projectId' });
+    const search = tx.objectStore('search');
+    let cursor = await tx.objectStore('projects').openCursor();
+    while (cursor) {
+      search.put(buildSearchDocument(cursor.value));
+      cursor = await cursor.continue();
+    }
+  },
+
+  // 4: tags, folders and pinning; summaries gain the new fields
+  async (_db, tx) => {
+    const summaries = tx.objectStore('summaries');
+    let cursor = await tx.objectStore('projects').openCursor();
+    while (cursor) {
+      const project: StoredProject = { ...cursor.value, tags: cursor.value.tags ?? [], pinned: cursor.value.pinned ?? false };
+      cursor.update(project);
+      summaries.put(toSummary(project));
+      cursor = await cursor.continue();
+    }
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBPDatabase<CircuitMindDB>> | null = null;
+
+const getDB = () => {
+  if (!dbPromise) {
+    dbPromise = openDB<CircuitMindDB>(DB_NAME, DB_VERSION, {
+      async upgrade(db, oldVersion, _newVersion, transaction) {
+        for (let version = oldVersion; version < DB_VERSION; version++) {
+          console.info(`Upgrading library to version ${version + 1}`);
+          await MIGRATIONS[version](db, transaction);
+        }
+      },
+      blocked() {
+        console.warn("Library upgrade is waiting for other tabs of this app to close");
+      },
+      // Let a newer version of the app in another tab upgrade the database
+      blocking() {
+        dbPromise?.then(db => db.close());
+        dbPromise = null;
+      },
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Saves a project. Page images are written only for pages that do not have
+ * one stored yet, since a page's image never changes after it is analyzed;
+ * images of pages that were removed are deleted. Tags, folder and pinning
+ * left undefined keep their stored values; use updateProjectInfo to clear them.
+ * With `replace`, the stored project is overwritten as a whole instead: every
+ * page image is rewritten and nothing is kept from the stored copy.
+ */
+export const saveProject = async (project: ProjectData, options: { replace?: boolean } = {}): Promise<void> => {
+  const db = await getDB();
+  const tx = db.transaction(['projects', 'summaries', 'images', 'search'], 'readwrite');
+  const images = tx.objectStore('images');
+
+  const [storedProject, storedKeys] = await Promise.all([
+    tx.objectStore('projects').get(project.id),
+    images.index('by-project').getAllKeys(project.id),
+  ]);
+  const existing = options.replace ? undefined : storedProject;
+  const pageIds = new Set(project.pages.map(p => p.id));
+  const kept = options.replace ? [] : storedKeys.filter(([, pageId]) => pageIds.has(pageId));
+  const storedPageIds = new Set(kept.map(([, pageId]) => pageId));
+  storedKeys.filter(([, pageId]) => !storedPageIds.has(pageId)).forEach(key => images.delete(key));
+
+  const pages: StoredPage[] = project.pages.map(({ image, ...page }) => {
+    if (storedPageIds.has(page.id)) return page;
+    const blob = dataUrlToBlob(image);
+    if (blob) {
+      images.put({ projectId: project.id, pageId: page.id, blob });
+      return page;
+    }
+    return image ? { ...page, image } : page;
   });
+
+  const stored: StoredProject = {
+    ...project,
+    pages,
+    tags: normalizeTags(project.tags ?? existing?.tags),
+    folder: project.folder ?? existing?.folder,
+    pinned: project.pinned ?? existing?.pinned ?? false,
+  };
+  tx.objectStore('projects').put(stored);
+  tx.objectStore('summaries').put(toSummary(stored));
+  tx.objectStore('search').put(buildSearchDocument(stored));
+  await tx.done;
 };
 
-export const saveProject = async (project: ProjectData): Promise<void> => {
+/**
+ * Renames, tags, files or pins a saved project without touching its pages.
+ * An empty folder moves the project back to the top level. Returns the
+ * updated summary, or undefined when the project does not exist.
+ */
+export const updateProjectInfo = async (id: string, info: Partial<ProjectInfo>): Promise<ProjectSummary | undefined> => {
   const db = await getDB();
-  await db.put(STORE_NAME, project);
+  const tx = db.transaction(['projects', 'summaries', 'search'], 'readwrite');
+  const projects = tx.objectStore('projects');
+  const stored = await projects.get(id);
+  if (!stored) return undefined;
+
+  const updated: StoredProject = {
+    ...stored,
+    ...info,
+    name: info.name?.trim() || stored.name,
+    tags: normalizeTags(info.tags ?? stored.tags),
+    folder: 'folder' in info ? info.folder?.trim() || undefined : stored.folder,
+  };
+  const summary = toSummary(updated);
+  projects.put(updated);
+  tx.objectStore('summaries').put(summary);
+  tx.objectStore('search').put(buildSearchDocument(updated));
+  await tx.done;
+  return summary;
+};
+
+/**
+ * Lists saved projects, newest first, without loading their pages.
+ */
+export const getProjectSummaries = async (): Promise<ProjectSummary[]> => {
+  const db = await getDB();
+  const summaries = await db.getAllFromIndex('summaries', 'by-date');
+  return summaries.reverse();
+};
+
+export const getProjectSummary = async (id: string): Promise<ProjectSummary | undefined> => {
+  const db = await getDB();
+  return db.get('summaries', id);
 };
 
-export const getAllProjects = async (): Promise<ProjectData[]> => {
+/**
+ * The search index of every saved project.
+ */
+export const getSearchDocuments = async (): Promise<SearchDocument[]> => {
   const db = await getDB();
-  return db.getAllFromIndex(STORE_NAME, 'by-date');
+  return db.getAll('search');
 };
 
 export const getProject = async (id: string): Promise<ProjectData | undefined> => {
   const db = await getDB();
-  return db.get(STORE_NAME, id);
+  const tx = db.transaction(['projects', 'images'], 'readonly');
+  const [stored, images] = await Promise.all([
+    tx.objectStore('projects').get(id),
+    tx.objectStore('images').index('by-project').getAll(id),
+  ]);
+  if (!stored) return undefined;
+
+  // Read the images back after the transaction, since FileReader is not an IndexedDB request
+  const blobs = new Map(images.map(img => [img.pageId, img.blob]));
+  const pages = await Promise.all(stored.pages.map(async (page): Promise<PageResult> => {
+    const blob = blobs.get(page.id);
+    return { ...page, image: blob ? await blobToDataUrl(blob) : page.image || '' };
+  }));
+  return { ...stored, pages };
 };
 
-export const deleteProject = async (id: string): Promise<void> => {
+/**
+ * Deletes projects and everything stored with them, all or nothing.
+ */
+export const deleteProjects = async (ids: string[]): Promise<void> => {
   const db = await getDB();
-  await db.delete(STORE_NAME, id);
+  const tx = db.transaction(['projects', 'summaries', 'images', 'search'], 'readwrite');
+  const images = tx.objectStore('images');
+  const imageKeys = await Promise.all(ids.map(id => images.index('by-project').getAllKeys(id)));
+  imageKeys.flat().forEach(key => images.delete(key));
+  ids.forEach(id => {
+    tx.objectStore('projects').delete(id);
+    tx.objectStore('summaries').delete(id);
+    tx.objectStore('search').delete(id);
+  });
+  await tx.done;
 };
+
+export const deleteProject = (id: string): Promise<void> => deleteProjects([id]);
@@ -0,0 +1,296 @@
+import { ComponentPin, FunctionalBlock, Net, SchematicAnalysis, SchematicComponent } from "../types";
+import { createNet, formatPinRef, isLocalNetName, parsePinRef } from "./netlistService";
+
+export type TilingMode = 'off' | 'auto' | 'always';
+
+// Tiles are sized so small designators stay legible after the model downsamples
+export const TILE_MAX_SIZE = 2048;
+// Fraction of each tile shared with its neighbour, so parts on an edge are seen whole at least once
+export const TILE_OVERLAP = 0.15;
+// In auto mode, pages whose long side exceeds this many pixels are tiled
+export const AUTO_TILE_MIN_SIZE = 3000;
+
+export interface TileRegion {
+  row: number;
+  col: number;
+  rows: number;
+  cols: number;
+  box: number[]; // [ymin, xmin, ymax, xmax] in page coordinates (0-1)
+}
+
+export interface TileAnalysis {
+  tile: TileRegion;
+  analysis: SchematicAnalysis;
+}
+
+const splitAxis = (length: number, maxTileSize: number, overlap: number): [number, number][] => {
+  const count = Math.max(1, Math.ceil(length / maxTileSize));
+  if (count === 1) return [[0, 1]];
+  // count tiles of size t, each overlapping the next by t * overlap, exactly span 0-1
+  const size = 1 / (count - (count - 1) * overlap);
+  const step = size * (1 - overlap);
+  return Array.from({ length: count }, (_, i) => [i * step, i === count - 1 ? 1 : i * step + size]);
+};
+
+/**
+ * Splits a page of `width` x `height` pixels into a grid of overlapping tiles
+ * no larger than `maxTileSize` pixels on a side.
+ */
+export const planTiles = (width: number, height: number, maxTileSize = TILE_MAX_SIZE, overlap = TILE_OVERLAP): TileRegion[] => {
+  const ys = splitAxis(height, maxTileSize, overlap);
+  const xs = splitAxis(width, maxTileSize, overlap);
+  return ys.flatMap(([y0, y1], row) => xs.map(([x0, x1], col) => ({
+    row,
+    col,
+    rows: ys.length,
+    cols: xs.length,
+    box: [y0, x0, y1, x1],
+  })));
+};
+
+/**
+ * Returns the tiles to analyze a page with, or null when it should be analyzed
+ * as a single image. 'always' tiles even small pages into at least two tiles.
+ */
+export const planPageTiles = (mode: TilingMode, width: number, height: number): TileRegion[] | null => {
+  if (mode === 'off') return null;
+  if (mode === 'auto' && Math.max(width, height) <= AUTO_TILE_MIN_SIZE) return null;
+  const maxTileSize = mode === 'always' ? Math.min(TILE_MAX_SIZE, Math.ceil(Math.max(width, height) / 2)) : TILE_MAX_SIZE;
+  const tiles = planTiles(width, height, maxTileSize);
+  return tiles.length > 1 ? tiles : null;
+};
+
+/**
+ * Maps a box given relative to a tile back to page coordinates.
+ */
+export const mapBoxToPage = (box: number[], tile: TileRegion): number[] => {
+  const [ty0, tx0, ty1, tx1] = tile.box;
+  const h = ty1 - ty0;
+  const w = tx1 - tx0;
+  return [ty0 + box[0] * h, tx0 + box[1] * w, ty0 + box[2] * h, tx0 + box[3] * w];
+};
+
+const mapPinsToPage = (pins: ComponentPin[], tile: TileRegion): ComponentPin[] =>
+  pins.map(pin => {
+    if (!pin.location) return pin;
+    const [y0, x0, y1, x1] = tile.box;
+    return { ...pin, location: [y0 + pin.location[0] * (y1 - y0), x0 + pin.location[1] * (x1 - x0)] };
+  });
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the page image"));
+    img.src = dataUrl;
+  });
+
+export const loadImageSize = async (dataUrl: string): Promise<{ width: number; height: number }> => {
+  const img = await loadImage(dataUrl);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+/**
+ * Cuts a region, given as [ymin, xmin, ymax, xmax] (0-1), out of an image.
+ */
+export const cropImage = async (dataUrl: string, box: number[], quality = 0.9): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const [y0, x0, y1, x1] = box;
+  const sx = Math.round(x0 * img.naturalWidth);
+  const sy = Math.round(y0 * img.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(x1 * img.naturalWidth) - sx);
+  canvas.height = Math.max(1, Math.round(y1 * img.naturalHeight) - sy);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Could not create a canvas to crop the page");
+
+  try {
+    context.drawImage(img, sx, sy, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+};
+
+const boxesIntersect = (a: number[], b: number[]) =>
+  a[0] < b[2] && b[0] < a[2] && a[1] < b[3] && b[1] < a[3];
+
+const unionBox = (a: number[], b: number[]) =>
+  [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+
+/**
+ * How far a tile-relative box lies from the edges the tile shares with its
+ * neighbours (0 = touching a shared edge, 0.5 = centred). Parts close to a
+ * shared edge are likely cut off, so their readings are trusted less.
+ */
+const interiorScore = (box: number[] | undefined, tile: TileRegion): number => {
+  if (!box) return 0;
+  const cy = (box[0] + box[2]) / 2;
+  const cx = (box[1] + box[3]) / 2;
+  const distances = [
+    tile.row > 0 ? cy : 1,
+    tile.row < tile.rows - 1 ? 1 - cy : 1,
+    tile.col > 0 ? cx : 1,
+    tile.col < tile.cols - 1 ? 1 - cx : 1,
+  ];
+  return Math.min(0.5, ...distances);
+};
+
+interface Candidate {
+  component: SchematicComponent;
+  score: number;
+}
+
+const mergeComponents = (overview: SchematicAnalysis | null, tiles: TileAnalysis[]): SchematicComponent[] => {
+  const groups = new Map<string, Candidate[]>();
+  const add = (component: SchematicComponent, score: number) => {
+    const key = component.designator.toUpperCase();
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push({ component, score });
+  };
+
+  tiles.forEach(({ tile, analysis }) => analysis.components.forEach(c => add({
+    ...c,
+    boundingBox: c.boundingBox && mapBoxToPage(c.boundingBox, tile),
+    ...(c.pins && { pins: mapPinsToPage(c.pins, tile) }),
+  }, interiorScore(c.boundingBox, tile))));
+  // The whole-page pass only fills in parts no tile found
+  overview?.components.forEach(c => add(c, -1));
+
+  return [...groups.values()].map(candidates => {
+    const [best, ...rest] = [...candidates].sort((a, b) => b.score - a.score);
+    const merged: SchematicComponent = { ...best.component };
+    if (!merged.boundingBox) delete merged.boundingBox;
+    rest.forEach(({ component }) => {
+      merged.value = merged.value || component.value;
+      merged.notes = merged.notes || component.notes;
+      // A symbol cut by a tile edge shows some of its pins in each tile
+      component.pins?.forEach(pin => {
+        if (!merged.pins?.some(p => p.number.toUpperCase() === pin.number.toUpperCase())) {
+          merged.pins = [...(merged.pins || []), pin];
+        }
+      });
+      if (!component.boundingBox) return;
+      if (!merged.boundingBox) {
+        merged.boundingBox = component.boundingBox;
+      } else if (boxesIntersect(merged.boundingBox, component.boundingBox)) {
+        // Pieces of a symbol cut by a tile edge
+        merged.boundingBox = unionBox(merged.boundingBox, component.boundingBox);
+      }
+    });
+    return merged;
+  });
+};
+
+const pinKey = (pin: string) => {
+  const ref = parsePinRef(pin);
+  return ref ? formatPinRef(ref) : pin.trim().toUpperCase();
+};
+
+/**
+ * Joins nets from different tiles: nets sharing a pin (seen in an overlap) or
+ * a global name are the same net. Local names like "N1" only mean something
+ * within one tile and are replaced by a global name where one is known.
+ */
+const mergeNets = (tiles: TileAnalysis[]): Net[] => {
+  const nets = tiles.flatMap(t => t.analysis.netlist);
+  const parent = nets.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => { parent[find(b)] = find(a); };
+
+  const byPin = new Map<string, number>();
+  const byName = new Map<string, number>();
+  nets.forEach((net, i) => {
+    net.connectedPins.forEach(pin => {
+      const key = pinKey(pin);
+      if (byPin.has(key)) union(byPin.get(key)!, i);
+      else byPin.set(key, i);
+    });
+    if (!isLocalNetName(net.id)) {
+      const key = net.id.toUpperCase();
+      if (byName.has(key)) union(byName.get(key)!, i);
+      else byName.set(key, i);
+    }
+  });
+
+  const groups = new Map<number, Net[]>();
+  nets.forEach((net, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(net);
+  });
+
+  const merged = [...groups.values()].map(group => {
+    const named = group.find(n => !isLocalNetName(n.id)) || group[0];
+    const seen = new Set<string>();
+    const connectedPins: string[] = [];
+    group.forEach(net => net.connectedPins.forEach(pin => {
+      const key = pinKey(pin);
+      if (!seen.has(key)) {
+        seen.add(key);
+        connectedPins.push(pin);
+      }
+    }));
+    return createNet(named.id, connectedPins);
+  });
+
+  // Two tiles can each have an unrelated "N1"; keep every net name unique so
+  // exports do not join them
+  const taken = new Set(merged.map(net => net.id.toUpperCase()));
+  const seenIds = new Set<string>();
+  return merged.map(net => {
+    const key = net.id.toUpperCase();
+    if (!seenIds.has(key)) {
+      seenIds.add(key);
+      return net;
+    }
+    let n = 2;
+    while (taken.has(`${key}_${n}`)) n++;
+    const id = `${net.id}_${n}`;
+    taken.add(id.toUpperCase());
+    seenIds.add(id.toUpperCase());
+    return { ...net, id };
+  });
+};
+
+const mergeBlocks = (blocks: FunctionalBlock[]): FunctionalBlock[] => {
+  const byName = new Map<string, FunctionalBlock>();
+  blocks.forEach(block => {
+    const key = block.name.trim().toLowerCase();
+    const existing = byName.get(key);
+    if (!existing) {
+      byName.set(key, { ...block, componentsInvolved: [...block.componentsInvolved] });
+      return;
+    }
+    block.componentsInvolved.forEach(d => {
+      if (!existing.componentsInvolved.includes(d)) existing.componentsInvolved.push(d);
+    });
+    existing.description = existing.description || block.description;
+  });
+  return [...byName.values()];
+};
+
+/**
+ * Combines per-tile analyses into one analysis of the whole page. Components
+ * are deduplicated by designator, preferring the reading from the tile where
+ * the part lies furthest from a cut, and their boxes are mapped back to page
+ * coordinates. Descriptive fields come from the optional whole-page pass.
+ */
+export const mergeTileAnalyses = (overview: SchematicAnalysis | null, tiles: TileAnalysis[]): SchematicAnalysis => {
+  const first = tiles[0]?.analysis;
+  return {
+    title: overview?.title || first?.title || '',
+    overview: overview?.overview || tiles.map(t => t.analysis.overview).filter(Boolean).join(' '),
+    components: mergeComponents(overview, tiles),
+    functionalBlocks: overview?.functionalBlocks.length
+      ? overview.functionalBlocks
+      : mergeBlocks(tiles.flatMap(t => t.analysis.functionalBlocks)),
+    connectivityLogic: overview?.connectivityLogic || tiles.map(t => t.analysis.connectivityLogic).filter(Boolean).join('\n\n'),
+    netlist: mergeNets(tiles),
+    potentialIssues: [...new Set([
+      ...(overview?.potentialIssues || []),
+      ...tiles.flatMap(t => t.analysis.potentialIssues),
+    ])],
+  };
+};
@@ -0,0 +1,440 @@
+import { ComponentPin, FunctionalBlock, Net, PageGrounding, PageTextItem, PageTextLayer, PinElectricalType, PinRef, SchematicAnalysis, SchematicComponent } from "../types";
+import { formatPinRef, parsePinRef } from "./netlistService";
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+}
+
+/**
+ * Placeholder analysis for pages that have not been (successfully) analyzed.
+ */
+export const createEmptyAnalysis = (): SchematicAnalysis => ({
+  title: '',
+  overview: '',
+  components: [],
+  functionalBlocks: [],
+  connectivityLogic: '',
+  netlist: [],
+  potentialIssues: [],
+});
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Reads an optional string field, recording an error when it has the wrong type.
+ */
+const readString = (obj: Record<string, unknown>, key: string, path: string, errors: string[], required = false): string => {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    if (required) errors.push(`${path}.${key} is missing`);
+    return '';
+  }
+  if (typeof value !== 'string') {
+    errors.push(`${path}.${key} must be a string`);
+    return '';
+  }
+  return value;
+};
+
+const readArray = (obj: Record<string, unknown>, key: string, path: string, errors: string[], required = false): unknown[] => {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    if (required) errors.push(`${path}.${key} is missing`);
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${path}.${key} must be an array`);
+    return [];
+  }
+  return value;
+};
+
+export const PIN_ELECTRICAL_TYPES: PinElectricalType[] = [
+  'input', 'output', 'bidirectional', 'tri_state', 'passive', 'power_in', 'power_out', 'open_collector', 'no_connect', 'unspecified',
+];
+
+// Models often return pin numbers as numbers
+const readPinNumber = (obj: Record<string, unknown>, key: string, path: string, errors: string[]): string =>
+  typeof obj[key] === 'number' ? String(obj[key]) : readString(obj, key, path, errors, true);
+
+const validatePin = (raw: unknown, path: string, errors: string[]): ComponentPin | null => {
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  const pin: ComponentPin = { number: readPinNumber(raw, 'number', path, errors) };
+  const name = readString(raw, 'name', path, errors);
+  if (name) pin.name = name;
+  const electricalType = readString(raw, 'electricalType', path, errors);
+  if (electricalType) {
+    if (PIN_ELECTRICAL_TYPES.includes(electricalType as PinElectricalType)) {
+      pin.electricalType = electricalType as PinElectricalType;
+    } else {
+      errors.push(`${path}.electricalType "${electricalType}" is not a known pin type`);
+    }
+  }
+  if (raw.location !== undefined && raw.location !== null) {
+    const location = raw.location;
+    if (Array.isArray(location) && location.length === 2 && location.every(n => typeof n === 'number' && Number.isFinite(n))) {
+      pin.location = location as number[];
+    } else {
+      errors.push(`${path}.location must be two numbers`);
+    }
+  }
+  return pin;
+};
+
+const validateNetPin = (raw: unknown, path: string, errors: string[]): PinRef | null => {
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  return {
+    designator: readString(raw, 'designator', path, errors, true),
+    pin: readPinNumber(raw, 'pin', path, errors),
+  };
+};
+
+const collectItems = <T,>(items: unknown[], path: string, errors: string[], validate: (item: unknown, itemPath: string, errors: string[]) => T | null): T[] =>
+  items
+    .map((item, i) => validate(item, `${path}[${i}]`, errors))
+    .filter((item): item is T => item !== null);
+
+const validateComponent = (raw: unknown, path: string, errors: string[]): SchematicComponent | null => {
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  const component: SchematicComponent = {
+    designator: readString(raw, 'designator', path, errors, true),
+    type: readString(raw, 'type', path, errors, true),
+    value: readString(raw, 'value', path, errors),
+    notes: readString(raw, 'notes', path, errors),
+  };
+  if (raw.boundingBox !== undefined && raw.boundingBox !== null) {
+    const box = raw.boundingBox;
+    if (Array.isArray(box) && box.length === 4 && box.every(n => typeof n === 'number' && Number.isFinite(n))) {
+      component.boundingBox = box as number[];
+    } else {
+      errors.push(`${path}.boundingBox must be four numbers`);
+    }
+  }
+  const icon = readString(raw, 'icon', path, errors);
+  if (icon) component.icon = icon;
+  if (raw.pins !== undefined && raw.pins !== null) {
+    component.pins = collectItems(readArray(raw, 'pins', path, errors), `${path}.pins`, errors, validatePin);
+  }
+  return component;
+};
+
+const validateBlock = (raw: unknown, path: string, errors: string[]): FunctionalBlock | null => {
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  const involved = raw.componentsInvolved;
+  if (involved !== undefined && !isStringArray(involved)) {
+    errors.push(`${path}.componentsInvolved must be an array of strings`);
+  }
+  return {
+    name: readString(raw, 'name', path, errors),
+    description: readString(raw, 'description', path, errors),
+    componentsInvolved: isStringArray(involved) ? involved : [],
+  };
+};
+
+const validateNet = (raw: unknown, path: string, errors: string[]): Net | null => {
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!isStringArray(raw.connectedPins)) {
+    errors.push(`${path}.connectedPins must be an array of strings`);
+  }
+  const net: Net = {
+    id: readString(raw, 'id', path, errors, true),
+    connectedPins: isStringArray(raw.connectedPins) ? raw.connectedPins : [],
+  };
+  if (raw.pins !== undefined && raw.pins !== null) {
+    net.pins = collectItems(readArray(raw, 'pins', path, errors), `${path}.pins`, errors, validateNetPin);
+  }
+  return net;
+};
+
+/**
+ * Checks an unknown value against the SchematicAnalysis shape.
+ * Optional fields are filled with defaults. Every problem found is reported
+ * in `errors` with a path such as "analysis.components[3].designator".
+ */
+export const validateSchematicAnalysis = (raw: unknown, path = 'analysis'): ValidationResult<SchematicAnalysis> => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return { value: null, errors: [`${path} must be an object`] };
+  }
+
+  const collect = <T,>(items: unknown[], key: string, validate: (item: unknown, itemPath: string, errors: string[]) => T | null): T[] =>
+    collectItems(items, `${path}.${key}`, errors, validate);
+
+  const potentialIssues = readArray(raw, 'potentialIssues', path, errors);
+  if (!isStringArray(potentialIssues)) errors.push(`${path}.potentialIssues must be an array of strings`);
+
+  const analysis: SchematicAnalysis = {
+    title: readString(raw, 'title', path, errors, true),
+    overview: readString(raw, 'overview', path, errors, true),
+    components: collect(readArray(raw, 'components', path, errors, true), 'components', validateComponent),
+    functionalBlocks: collect(readArray(raw, 'functionalBlocks', path, errors, true), 'functionalBlocks', validateBlock),
+    connectivityLogic: readString(raw, 'connectivityLogic', path, errors, true),
+    netlist: collect(readArray(raw, 'netlist', path, errors, true), 'netlist', validateNet),
+    potentialIssues: isStringArray(potentialIssues) ? potentialIssues : [],
+  };
+
+  return { value: analysis, errors };
+};
+
+const isBox = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length === 4 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const validateTextItem = (raw: unknown, path: string, errors: string[]): PageTextItem | null => {
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  if (!isBox(raw.box)) {
+    errors.push(`${path}.box must be four numbers`);
+    return null;
+  }
+  return { text: readString(raw, 'text', path, errors, true), box: raw.box };
+};
+
+/**
+ * Checks a stored PDF text layer, e.g. one read back from a project bundle.
+ */
+export const validateTextLayer = (raw: unknown, path = 'textLayer'): ValidationResult<PageTextLayer> => {
+  if (!isObject(raw)) {
+    return { value: null, errors: [`${path} must be an object`] };
+  }
+  const errors: string[] = [];
+  const readSize = (key: string) => {
+    const value = raw[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) return value;
+    errors.push(`${path}.${key} must be a positive number`);
+    return 0;
+  };
+  const width = readSize('width');
+  const height = readSize('height');
+  const items = collectItems(readArray(raw, 'items', path, errors, true), `${path}.items`, errors, validateTextItem);
+  return { value: errors.length === 0 ? { width, height, items } : null, errors };
+};
+
+/**
+ * Checks a stored grounding report against the PageGrounding shape.
+ */
+export const validateGrounding = (raw: unknown, path = 'grounding'): ValidationResult<PageGrounding> => {
+  if (!isObject(raw)) {
+    return { value: null, errors: [`${path} must be an object`] };
+  }
+  const errors: string[] = [];
+  const readStrings = (key: string) => {
+    const value = readArray(raw, key, path, errors, true);
+    if (isStringArray(value)) return value;
+    errors.push(`${path}.${key} must be an array of strings`);
+    return [];
+  };
+  const correctedValues = collectItems(readArray(raw, 'correctedValues', path, errors, true), `${path}.correctedValues`, errors, (item, itemPath, itemErrors) => {
+    if (!isObject(item)) {
+      itemErrors.push(`${itemPath} must be an object`);
+      return null;
+    }
+    return {
+      designator: readString(item, 'designator', itemPath, itemErrors, true),
+      from: readString(item, 'from', itemPath, itemErrors),
+      to: readString(item, 'to', itemPath, itemErrors),
+    };
+  });
+  const grounding: PageGrounding = {
+    correctedValues,
+    snappedBoxes: readStrings('snappedBoxes'),
+    missedDesignators: readStrings('missedDesignators'),
+  };
+  return { value: errors.length === 0 ? grounding : null, errors };
+};
+
+// Problems in these fields are fixed or dropped locally. Anything else is
+// worth asking the model to correct. Pins are optional detail, so a bad pin
+// entry is dropped rather than repaired.
+const MINOR_FIELD_PATTERN = /\.(value|notes|icon|boundingBox|name|description|potentialIssues|pins)( |$)|\.pins\[\d+\]/;
+
+export const isMinorValidationError = (error: string) => MINOR_FIELD_PATTERN.test(error);
+
+export interface NormalizationResult {
+  analysis: SchematicAnalysis;
+  fixes: string[];
+}
+
+// Coordinates on a 0-1000 grid, as some models give them. A value slightly
+// above 1 is an overshoot of a 0-1 box and is clamped instead.
+const isThousandGrid = (values: number[]) =>
+  values.every(v => v <= 1000) && Math.max(...values) > 1.5;
+
+/**
+ * Clamps a [ymin, xmin, ymax, xmax] box into 0-1 and puts the corners in order.
+ * Boxes given on a 0-1000 grid, as some models do, are rescaled first.
+ * Returns null for boxes with no area.
+ */
+export const normalizeBoundingBox = (box: number[]): number[] | null => {
+  if (box.length !== 4 || !box.every(Number.isFinite)) return null;
+  const scaled = isThousandGrid(box) ? box.map(v => v / 1000) : box;
+  const [y1, x1, y2, x2] = scaled.map(v => Math.min(1, Math.max(0, v)));
+  const normalized = [Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)];
+  if (normalized[2] - normalized[0] <= 0 || normalized[3] - normalized[1] <= 0) return null;
+  return normalized;
+};
+
+/**
+ * Clamps a [y, x] point into 0-1, rescaling points given on a 0-1000 grid.
+ */
+const normalizePoint = (point: number[]): number[] | null => {
+  if (point.length !== 2 || !point.every(Number.isFinite)) return null;
+  const scaled = isThousandGrid(point) ? point.map(v => v / 1000) : point;
+  return scaled.map(v => Math.min(1, Math.max(0, v)));
+};
+
+/**
+ * Trims pins, drops pins without a number and keeps the first of repeated numbers.
+ */
+const normalizePins = (pins: ComponentPin[], designator: string, fixes: string[]): ComponentPin[] => {
+  const byNumber = new Map<string, ComponentPin>();
+  pins.forEach(raw => {
+    const number = raw.number.trim();
+    if (!number || byNumber.has(number.toUpperCase())) return;
+    const pin: ComponentPin = { ...raw, number };
+    const name = raw.name?.trim();
+    if (name) pin.name = name;
+    else delete pin.name;
+    if (raw.location) {
+      const location = normalizePoint(raw.location);
+      if (location) pin.location = location;
+      else delete pin.location;
+    }
+    byNumber.set(number.toUpperCase(), pin);
+  });
+  if (byNumber.size !== pins.length) {
+    fixes.push(`Removed unnumbered or repeated pins from ${designator}`);
+  }
+  return [...byNumber.values()];
+};
+
+/**
+ * Cleans up a structurally valid analysis: trims strings, fixes bounding boxes,
+ * merges duplicate designators and removes empty or repeated pins. A net's pin
+ * strings and structured pins are completed from each other.
+ * Every change is described in `fixes`.
+ */
+export const normalizeAnalysis = (input: SchematicAnalysis): NormalizationResult => {
+  const fixes: string[] = [];
+
+  const byDesignator = new Map<string, SchematicComponent>();
+  input.components.forEach((raw, i) => {
+    const designator = raw.designator.trim();
+    if (!designator) {
+      fixes.push(`Dropped component #${i + 1} (${raw.type || 'unknown type'}) without a designator`);
+      return;
+    }
+
+    const component: SchematicComponent = {
+      ...raw,
+      designator,
+      type: raw.type.trim(),
+      value: raw.value.trim(),
+      notes: raw.notes.trim(),
+    };
+    if (raw.boundingBox) {
+      const box = normalizeBoundingBox(raw.boundingBox);
+      if (!box) {
+        delete component.boundingBox;
+        fixes.push(`Removed invalid bounding box from ${designator}`);
+      } else {
+        if (box.some((v, j) => Math.abs(v - raw.boundingBox![j]) > 1e-9)) {
+          fixes.push(`Adjusted bounding box of ${designator}`);
+        }
+        component.boundingBox = box;
+      }
+    }
+    if (raw.pins) {
+      component.pins = normalizePins(raw.pins, designator, fixes);
+    }
+
+    const key = designator.toUpperCase();
+    const existing = byDesignator.get(key);
+    if (existing) {
+      // Keep the first entry but fill its gaps from the duplicate
+      byDesignator.set(key, {
+        ...existing,
+        value: existing.value || component.value,
+        notes: existing.notes || component.notes,
+        boundingBox: existing.boundingBox || component.boundingBox,
+        pins: existing.pins?.length ? existing.pins : component.pins,
+      });
+      fixes.push(`Merged duplicate designator ${designator}`);
+    } else {
+      byDesignator.set(key, component);
+    }
+  });
+
+  const netlist = input.netlist.map((net, i) => {
+    let id = net.id.trim();
+    if (!id) {
+      id = `unnamed_${i + 1}`;
+      fixes.push(`Named unnamed net #${i + 1} ${id}`);
+    }
+    const pins: string[] = [];
+    net.connectedPins.forEach(raw => {
+      const pin = raw.trim();
+      if (pin && !pins.includes(pin)) pins.push(pin);
+    });
+    if (pins.length !== net.connectedPins.length) {
+      fixes.push(`Removed empty or repeated pins from net ${id}`);
+    }
+
+    const refs: PinRef[] = [];
+    const addRef = (ref: PinRef) => {
+      if (!refs.some(r => formatPinRef(r) === formatPinRef(ref))) refs.push(ref);
+    };
+    pins.forEach(pin => {
+      const ref = parsePinRef(pin);
+      if (ref) addRef(ref);
+    });
+    const fromStrings = refs.length;
+    (net.pins || []).forEach(raw => {
+      const ref = { designator: raw.designator.trim().toUpperCase(), pin: raw.pin.trim() };
+      if (ref.designator && ref.pin) addRef(ref);
+    });
+    if (refs.length > fromStrings) {
+      refs.slice(fromStrings).forEach(ref => pins.push(formatPinRef(ref)));
+      fixes.push(`Added ${refs.length - fromStrings} structured pin(s) missing from the pin list of net ${id}`);
+    }
+    return { id, connectedPins: pins, pins: refs };
+  });
+
+  const functionalBlocks = input.functionalBlocks.map(block => ({
+    ...block,
+    componentsInvolved: block.componentsInvolved.map(d => d.trim()).filter(Boolean),
+  }));
+
+  return {
+    analysis: {
+      ...input,
+      title: input.title.trim(),
+      components: [...byDesignator.values()],
+      functionalBlocks,
+      netlist,
+      potentialIssues: input.potentialIssues.map(i => i.trim()).filter(Boolean),
+    },
+    fixes,
+  };
+};
@@ -0,0 +1,231 @@
+import { SchematicComponent } from "../types";
+
+export type ValueUnit = 'Ω' | 'F' | 'H' | 'V' | 'A' | 'W' | 'Hz';
+
+export interface ParsedValue {
+  raw: string;
+  magnitude: number | null; // In base units: ohms, farads, henries, ...
+  unit: ValueUnit | null;
+  tolerance?: number; // Percent
+  voltageRating?: number; // Volts
+  powerRating?: number; // Watts
+  dielectric?: string; // e.g. "X7R", "C0G"
+  package?: string; // e.g. "0603", "SOT-23"
+  part?: string; // Part number or description when the value is not a quantity, e.g. "NE555"
+  unparsed: string[]; // Tokens that could not be read
+}
+
+const PREFIX_SCALES: Record<string, number> = {
+  p: 1e-12, n: 1e-9, u: 1e-6, 'µ': 1e-6, 'μ': 1e-6, m: 1e-3, k: 1e3, K: 1e3, M: 1e6, meg: 1e6, Meg: 1e6, MEG: 1e6, G: 1e9, T: 1e12,
+};
+
+const UNIT_ALIASES: Record<string, ValueUnit> = {
+  'ω': 'Ω', ohm: 'Ω', ohms: 'Ω', r: 'Ω', e: 'Ω', f: 'F', h: 'H', v: 'V', a: 'A', w: 'W', hz: 'Hz',
+};
+
+// Prefixes are case-sensitive ("m" is milli, "M" is mega); units are not
+const QUANTITY_PATTERN = /^(\d+(?:[.,]\d+)?|[.,]\d+)(meg|Meg|MEG|[pnuµμmkKMGT])?(Ω|[oO][hH][mM][sS]?|[RrFfHhVvAaWw]|[hH][zZ])?$/;
+// RKM code: the multiplier, or R/E for ohms and V for volts, replaces the decimal point ("4k7", "2R2", "4n7", "5V6")
+const RKM_PATTERN = /^(\d+)(meg|[pnuµμmkKMGTRrEV])(\d+)(Ω|[FfHhAWw]|[hH][zZ])?$/;
+const TOLERANCE_PATTERN = /^±?(\d+(?:[.,]\d+)?)%$/;
+const DIELECTRIC_PATTERN = /^(X[5-8][RSPTUV]|Y5V|Z5U|C0G|COG|NP0|NPO)$/i;
+const PACKAGE_PATTERN = /^(0201|0402|0603|0805|1008|1206|1210|1812|2010|2220|2512|(SOT|SOD|TO|DIP|PDIP|SOIC|SOP|SO|SSOP|TSSOP|MSOP|QFN|DFN|TQFP|LQFP|QFP|BGA|SIP)-?\d+[A-Z]*|SMA|SMB|SMC|MELF|MINIMELF|DPAK|D2PAK|AXIAL|RADIAL)$/i;
+
+// "1/4W" is a power rating, not two tokens
+const FRACTION_POWER_PATTERN = /(\d+)\s*\/\s*(\d+)\s*W\b/gi;
+const VOLT_SUFFIX_PATTERN = /(\d)\s*V(?:DC|AC)\b/gi;
+// "10 µF" and "4.7 kΩ" are one quantity
+const SPACED_UNIT_PATTERN = /(\d)\s+(?=(?:meg|[pnuµμmkKMGT])?(?:Ω|[oO]hms?|[FfHhVAWR]|Hz)?(?:$|[\s,;/]))/g;
+const SPACED_PREFIXED_UNIT_PATTERN = /(\d(?:meg|[pnuµμmkKMGT]))\s+(?=(?:Ω|[oO]hms?|[FfHh]|Hz)(?:$|[\s,;/]))/g;
+const OHM_SIGN_PATTERN = /[\u2126\u03A9\u03C9]/g;
+const TOKEN_SEPARATOR = /[\s;/]+|,(?!\d)/;
+// Placeholders the model writes when there is no value
+const EMPTY_TOKENS = ['?', '-', '~', 'N/A'];
+
+const toNumber = (text: string) => parseFloat(text.replace(',', '.'));
+
+const toUnit = (text: string | undefined): ValueUnit | null =>
+  text ? UNIT_ALIASES[text.toLowerCase()] || (text === 'Ω' ? 'Ω' : null) : null;
+
+const readQuantity = (token: string): { magnitude: number; unit: ValueUnit | null } | null => {
+  const rkm = token.match(RKM_PATTERN);
+  if (rkm) {
+    const separator = rkm[2];
+    const isUnitSeparator = /^[RrEV]$/.test(separator);
+    const magnitude = toNumber(`${rkm[1]}.${rkm[3]}`) * (isUnitSeparator ? 1 : PREFIX_SCALES[separator]);
+    return {
+      magnitude: Number(magnitude.toPrecision(12)),
+      unit: isUnitSeparator ? (separator === 'V' ? 'V' : 'Ω') : toUnit(rkm[4]),
+    };
+  }
+
+  const plain = token.match(QUANTITY_PATTERN);
+  if (!plain) return null;
+  const magnitude = toNumber(plain[1]) * (plain[2] ? PREFIX_SCALES[plain[2]] : 1);
+  return { magnitude: Number(magnitude.toPrecision(12)), unit: toUnit(plain[3]) };
+};
+
+/**
+ * Parses a free-text component value such as "4k7", "100nF", "0.1u" or
+ * "10 µF 25V X7R 0805". The first quantity is the value itself; later volts
+ * and watts are ratings. `expectedUnit`, usually from the component type,
+ * fills in a missing unit and keeps a leading rating ("25V 10µF") from being
+ * read as the value. Anything not understood is listed in `unparsed`.
+ */
+export const parseValue = (raw: string, expectedUnit: ValueUnit | null = null): ParsedValue => {
+  const result: ParsedValue = { raw, magnitude: null, unit: null, unparsed: [] };
+  const text = (raw || '')
+    .replace(OHM_SIGN_PATTERN, 'Ω')
+    .replace(FRACTION_POWER_PATTERN, (_, a, b) => `${Number((Number(a) / Number(b)).toPrecision(6))}W`)
+    .replace(VOLT_SUFFIX_PATTERN, '$1V')
+    .replace(SPACED_UNIT_PATTERN, '$1')
+    .replace(SPACED_PREFIXED_UNIT_PATTERN, '$1')
+    .trim();
+
+  const tokens = text
+    .split(TOKEN_SEPARATOR)
+    .map(token => token.replace(/^[(\[]+|[)\],]+$/g, ''))
+    .filter(token => token && !EMPTY_TOKENS.includes(token.toUpperCase()));
+
+  tokens.forEach(token => {
+    const tolerance = token.match(TOLERANCE_PATTERN);
+    if (tolerance && result.tolerance === undefined) {
+      result.tolerance = toNumber(tolerance[1]);
+      return;
+    }
+    if (PACKAGE_PATTERN.test(token) && !result.package) {
+      result.package = token.toUpperCase();
+      return;
+    }
+    if (DIELECTRIC_PATTERN.test(token) && !result.dielectric) {
+      result.dielectric = token.toUpperCase().replace('COG', 'C0G').replace('NPO', 'NP0');
+      return;
+    }
+
+    const quantity = readQuantity(token);
+    if (quantity) {
+      const isRating = quantity.unit === 'V' || quantity.unit === 'W';
+      if (result.magnitude === null && !(isRating && expectedUnit && quantity.unit !== expectedUnit)) {
+        result.magnitude = quantity.magnitude;
+        result.unit = quantity.unit || expectedUnit;
+      } else if (quantity.unit === 'V' && result.voltageRating === undefined) {
+        result.voltageRating = quantity.magnitude;
+      } else if (quantity.unit === 'W' && result.powerRating === undefined) {
+        result.powerRating = quantity.magnitude;
+      } else {
+        result.unparsed.push(token);
+      }
+      return;
+    }
+
+    // Parts that are not quantities (ICs, LEDs, ...) are named by their first word
+    if (!expectedUnit && result.magnitude === null && !result.part) {
+      result.part = token;
+      return;
+    }
+    result.unparsed.push(token);
+  });
+
+  return result;
+};
+
+/**
+ * The unit a component's value is expected in, from its icon category or type.
+ */
+export const expectedUnitFor = (component: Pick<SchematicComponent, 'type' | 'icon'>): ValueUnit | null => {
+  const type = (component.type || '').toLowerCase();
+  if (component.icon === 'resistor' || /resist|potentiometer|trimmer|thermistor/.test(type)) return 'Ω';
+  if (component.icon === 'capacitor' || type.includes('capacit')) return 'F';
+  if (component.icon === 'inductor' || /induct|choke|coil/.test(type)) return 'H';
+  if (/crystal|resonator/.test(type)) return 'Hz';
+  if (type.includes('fuse')) return 'A';
+  return null;
+};
+
+export const parseComponentValue = (component: Pick<SchematicComponent, 'type' | 'icon' | 'value'>): ParsedValue =>
+  parseValue(component.value, expectedUnitFor(component));
+
+/**
+ * Whether part of a non-empty value could not be read.
+ */
+export const isUnparsedValue = (parsed: ParsedValue): boolean => parsed.unparsed.length > 0;
+
+const ENGINEERING_PREFIXES: [number, string][] = [
+  [1e12, 'T'], [1e9, 'G'], [1e6, 'M'], [1e3, 'k'], [1, ''], [1e-3, 'm'], [1e-6, 'µ'], [1e-9, 'n'], [1e-12, 'p'],
+];
+
+/**
+ * Splits a magnitude into a mantissa of up to 4 significant digits and an SI prefix.
+ */
+export const toEngineering = (magnitude: number): { mantissa: number; prefix: string } => {
+  if (magnitude === 0) return { mantissa: 0, prefix: '' };
+  const abs = Math.abs(magnitude);
+  const [scale, prefix] = ENGINEERING_PREFIXES.find(([s]) => abs >= s) || ENGINEERING_PREFIXES[ENGINEERING_PREFIXES.length - 1];
+  return { mantissa: Number((magnitude / scale).toPrecision(4)), prefix };
+};
+
+const formatQuantity = (magnitude: number, unit: string) => {
+  const { mantissa, prefix } = toEngineering(magnitude);
+  return `${mantissa}${prefix}${unit}`;
+};
+
+/**
+ * Canonical display form, e.g. "4.7kΩ 1% 0603". Falls back to the raw text
+ * when the value is not a quantity.
+ */
+export const formatValue = (parsed: ParsedValue): string => {
+  if (parsed.magnitude === null) return parsed.raw.trim();
+  return [
+    formatQuantity(parsed.magnitude, parsed.unit || ''),
+    parsed.tolerance !== undefined && `${parsed.tolerance}%`,
+    parsed.voltageRating !== undefined && formatQuantity(parsed.voltageRating, 'V'),
+    parsed.powerRating !== undefined && formatQuantity(parsed.powerRating, 'W'),
+    parsed.dielectric,
+    parsed.package,
+    ...parsed.unparsed,
+  ].filter(Boolean).join(' ');
+};
+
+const looseText = (text: string) => text.toUpperCase().replace(/[\s_]+/g, '');
+
+/**
+ * A key under which equivalent values match: "4k7", "4.7K" and "4700 Ω" give
+ * the same key, while different ratings, tolerances or packages do not.
+ */
+export const valueKey = (parsed: ParsedValue): string => {
+  if (parsed.magnitude === null) return looseText(parsed.raw);
+  return [
+    formatQuantity(parsed.magnitude, parsed.unit || ''),
+    parsed.tolerance,
+    parsed.voltageRating,
+    parsed.powerRating,
+    parsed.dielectric,
+    parsed.package,
+    ...parsed.unparsed.map(looseText),
+  ].map(part => part ?? '').join('|');
+};
+
+/**
+ * Whether two values name the same quantity, ignoring ratings and packages.
+ * A missing unit matches any unit, so "100n" equals "100nF".
+ */
+export const sameQuantity = (a: ParsedValue, b: ParsedValue): boolean => {
+  if (a.magnitude !== null && b.magnitude !== null) {
+    const close = Math.abs(a.magnitude - b.magnitude) <= Math.max(Math.abs(a.magnitude), Math.abs(b.magnitude)) * 1e-9;
+    return close && (!a.unit || !b.unit || a.unit === b.unit);
+  }
+  return looseText(a.part || a.raw) === looseText(b.part || b.raw);
+};
+
+/**
+ * Orders values by unit and then magnitude. Values that are not quantities
+ * sort after them, by text.
+ */
+export const compareValues = (a: ParsedValue, b: ParsedValue): number => {
+  if (a.magnitude !== null && b.magnitude !== null) {
+    return (a.unit || '').localeCompare(b.unit || '') || a.magnitude - b.magnitude;
+  }
+  if (a.magnitude !== null) return -1;
+  if (b.magnitude !== null) return 1;
+  return a.raw.localeCompare(b.raw, undefined, { numeric: true });
+};
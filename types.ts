@@ -1,3 +1,23 @@
+// Follows the KiCad pin types so pins export without translation
+export type PinElectricalType =
+  | 'input'
+  | 'output'
+  | 'bidirectional'
+  | 'tri_state'
+  | 'passive'
+  | 'power_in'
+  | 'power_out'
+  | 'open_collector'
+  | 'no_connect'
+  | 'unspecified';
+
+export interface ComponentPin {
+  number: string; // As printed, e.g. "3", "A1", or "B" on a transistor without numbers
+  name?: string; // e.g., "VCC", "OUT", "IN-"
+  electricalType?: PinElectricalType;
+  location?: number[]; // [y, x] of the pin's end, normalized 0-1
+}
+
 export interface SchematicComponent {
   designator: string;
   type: string;
@@ -5,6 +25,12 @@ export interface SchematicComponent {
   notes: string;
   boundingBox?: number[]; // [ymin, xmin, ymax, xmax] normalized 0-1
   icon?: string; // Key for visual icon representation (e.g., 'resistor', 'chip')
+  pins?: ComponentPin[];
+}
+
+export interface PinRef {
+  designator: string;
+  pin: string; // Pin number, or name when the number is unknown
 }
 
 export interface FunctionalBlock {
@@ -16,6 +42,7 @@ export interface FunctionalBlock {
 export interface Net {
   id: string; // e.g., "VCC", "GND", "Net_1"
   connectedPins: string[]; // e.g., ["U1-1", "R1-2"]
+  pins?: PinRef[]; // Structured form of connectedPins; build nets with createNet and read them with getNetPinRefs
 }
 
 export interface SchematicAnalysis {
@@ -28,11 +55,53 @@ export interface SchematicAnalysis {
   potentialIssues: string[];
 }
 
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export interface NetlistFinding {
+  ruleId: string; // e.g., "unknown-designator", "single-pin-net"
+  severity: FindingSeverity;
+  message: string;
+  designators: string[];
+  nets: string[];
+}
+
+export interface PageTextItem {
+  text: string;
+  box: number[]; // [ymin, xmin, ymax, xmax] normalized to 0-1
+}
+
+// Positioned text from the text layer of a vector PDF page
+export interface PageTextLayer {
+  width: number; // Page size in PDF points
+  height: number;
+  items: PageTextItem[];
+}
+
+// What reconciling an analysis with the page's text layer changed or found
+export interface PageGrounding {
+  correctedValues: { designator: string; from: string; to: string }[];
+  snappedBoxes: string[];
+  missedDesignators: string[];
+}
+
 export interface PageResult {
   id: string;
   pageNumber: number;
   image: string; // Base64
   analysis: SchematicAnalysis;
+  originalAnalysis?: SchematicAnalysis; // The model's output, kept from the first edit on so it can be restored
+  error?: string; // Set when analysis of this page failed; `analysis` is then empty
+  textLayer?: PageTextLayer; // Only for PDF pages that have a text layer
+  grounding?: PageGrounding;
+}
+
+export type PageCategory = 'schematic' | 'wiring_diagram' | 'pcb_layout' | 'text' | 'other' | 'unknown';
+
+export interface PageDetection {
+  index: number; // Position in the list of images that was scanned
+  category: PageCategory;
+  confidence: number; // 0-1
+  error?: string; // Set when the page could not be classified; category is then 'unknown'
 }
 
 export interface ProjectData {
@@ -40,6 +109,30 @@ export interface ProjectData {
   name: string;
   timestamp: number;
   pages: PageResult[];
+  tags?: string[];
+  folder?: string; // Collection the project is filed under; unset for the top level
+  pinned?: boolean;
+}
+
+// Library metadata that can be changed without re-saving the pages
+export type ProjectInfo = Pick<ProjectData, 'name' | 'tags' | 'folder' | 'pinned'>;
+
+// A place in a project to open, e.g. from a library search result
+export interface ProjectLocation {
+  pageId: string;
+  designator?: string;
+  netId?: string;
+}
+
+// What the library lists for a project, without loading its pages
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  timestamp: number;
+  pageCount: number;
+  tags: string[];
+  folder: string | null;
+  pinned: boolean;
 }
 
-export type AnalysisStatus = 'idle' | 'rendering_pdf' | 'filtering' | 'analyzing' | 'complete' | 'error';
\ No newline at end of file
+export type AnalysisStatus = 'idle' | 'importing' | 'rendering_pdf' | 'selecting_pages' | 'filtering' | 'analyzing' | 'complete' | 'error';
\ No newline at end of file